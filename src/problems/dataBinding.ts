@@ -0,0 +1,136 @@
+/**
+ * Data Binding
+ *
+ * Charts and metrics in a screen config can reference live data instead of
+ * inlining it (see DataSource in problem2.ts):
+ *
+ * { "type": "metric", "label": "Loss",
+ *   "source": { "kind": "experimentMetric", "experimentId": "exp-1", "metric": "loss" } }
+ * { "type": "chart", "chartType": "line",
+ *   "source": { "kind": "metricHistory", "experimentId": "exp-1", "metric": "loss",
+ *               "pipeline": [{ "transform": "movingAverage", "windowSize": 3 }] } }
+ *
+ * Until their data is resolved these render as loading (UnresolvedComponent).
+ * resolveDataSources fetches every source through ApiClient, runs metricHistory
+ * pipelines, and the result is passed back to render:
+ *
+ * const loading = renderer.render(config);
+ * const data = await resolveDataSources(config, client);
+ * const screen = renderer.render(config, { data });
+ */
+
+import { sourceKey, validateDataSource, type DataSource, type PipelineStep, type SourceState } from './problem2';
+import type { ApiClient } from './problem3';
+import { TransformPipeline, transformers, type RawMetric } from './problem5';
+
+// ============================================
+// Collecting Sources
+// ============================================
+
+/**
+ * Every valid data source in a screen config, at any nesting depth, without duplicates.
+ * Invalid sources are skipped here; the renderer reports them.
+ */
+export function collectDataSources(config: unknown): DataSource[] {
+  const sources = new Map<string, DataSource>();
+
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (typeof value !== 'object' || value === null) {
+      return;
+    }
+
+    const node = value as Record<string, unknown>;
+    if (typeof node.type === 'string' && node.source !== undefined) {
+      const validated = validateDataSource(node.source);
+      if (validated.valid) {
+        sources.set(sourceKey(validated.source), validated.source);
+      }
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (key !== 'source') visit(child);
+    }
+  };
+
+  visit(config);
+  return Array.from(sources.values());
+}
+
+// ============================================
+// Resolving Sources
+// ============================================
+
+/**
+ * Build the TransformPipeline described by a metricHistory source
+ */
+export function buildPipeline(steps: PipelineStep[]): TransformPipeline<RawMetric[]> {
+  let pipeline = new TransformPipeline<RawMetric[]>();
+  for (const step of steps) {
+    switch (step.transform) {
+      case 'filterByTimeRange':
+        pipeline = pipeline.pipe(transformers.filterByTimeRange(new Date(step.start), new Date(step.end)));
+        break;
+      case 'sampleMetrics':
+        pipeline = pipeline.pipe(transformers.sampleMetrics(step.maxPoints));
+        break;
+      case 'movingAverage':
+        pipeline = pipeline.pipe(transformers.movingAverage(step.windowSize));
+        break;
+    }
+  }
+  return pipeline;
+}
+
+/**
+ * Fetch one source. Never throws: failures become an error state.
+ */
+export async function resolveSource(source: DataSource, client: ApiClient): Promise<SourceState> {
+  if (source.kind === 'experimentMetric') {
+    const response = await client.getExperiment(source.experimentId);
+    if (!response.success) {
+      return { status: 'error', error: response.error.message };
+    }
+
+    const value = response.data.metrics[source.metric];
+    if (typeof value !== 'number') {
+      return { status: 'error', error: `Experiment "${source.experimentId}" has no metric "${source.metric}"` };
+    }
+    return { status: 'ready', value };
+  }
+
+  const response = await client.getMetricHistory(source.experimentId, source.metric);
+  if (!response.success) {
+    return { status: 'error', error: response.error.message };
+  }
+
+  const history: RawMetric[] = response.data.map(point => ({
+    timestamp: point.timestamp,
+    name: source.metric,
+    value: point.value,
+    step: point.step
+  }));
+
+  try {
+    const transformed = await buildPipeline(source.pipeline ?? []).execute(history);
+    return { status: 'ready', value: transformed.map(metric => metric.value) };
+  } catch (error) {
+    return { status: 'error', error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Resolve every data source in a screen config (concurrently, one fetch per
+ * distinct source), for RenderOptions.data
+ */
+export async function resolveDataSources(
+  config: unknown,
+  client: ApiClient
+): Promise<Map<string, SourceState>> {
+  const entries = await Promise.all(
+    collectDataSources(config).map(async source => [sourceKey(source), await resolveSource(source, client)] as const)
+  );
+  return new Map(entries);
+}
@@ -0,0 +1,390 @@
+/**
+ * Screen Expressions
+ *
+ * A small, safe expression language for screen configs. There is no eval:
+ * expressions are tokenized and parsed into a tree, and evaluation can only
+ * read the context object passed to render (own properties only).
+ *
+ * visibleIf:   "run.status == 'failed' && !hidden", "delta < -0.5"
+ * templates:   "Run {{run.name}} — {{run.status}}" (in fields the config opts in with "template")
+ *
+ * Supported:
+ * - literals: numbers, 'single' or "double" quoted strings, true, false, null
+ * - paths: name, run.status, run.metrics.loss (missing values are undefined)
+ * - operators: ! && || == != < <= > >= and parentheses
+ * - unary minus: -0.5, -run.delta (negating anything but a number gives undefined)
+ *
+ * == and != are strict (missing values equal null); ordering operators
+ * compare two numbers or two strings and are false for anything else.
+ */
+
+// ============================================
+// Syntax Tree
+// ============================================
+
+export type BinaryOperator = '&&' | '||' | '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type Expression =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'path'; segments: string[] }
+  | { kind: 'not'; operand: Expression }
+  | { kind: 'negate'; operand: Expression }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression };
+
+export type ExpressionResult = { valid: true; expression: Expression } | { valid: false; error: string };
+
+// ============================================
+// Tokenizer
+// ============================================
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '-', '(', ')', '.'];
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', '\\': '\\', "'": "'", '"': '"' };
+
+class ExpressionSyntaxError extends Error {}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const number = /^\d+(\.\d+)?/.exec(source.slice(position));
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]), position });
+      position += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_$][\w$]*/.exec(source.slice(position));
+    if (identifier) {
+      tokens.push({ kind: 'identifier', value: identifier[0], position });
+      position += identifier[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      const start = position;
+      let value = '';
+      position++;
+      while (position < source.length && source[position] !== char) {
+        if (source[position] === '\\') {
+          const escaped = ESCAPES[source[position + 1]];
+          if (escaped === undefined) {
+            throw new ExpressionSyntaxError(`Invalid escape at ${position}`);
+          }
+          value += escaped;
+          position += 2;
+        } else {
+          value += source[position++];
+        }
+      }
+      if (position >= source.length) {
+        throw new ExpressionSyntaxError(`Unterminated string at ${start}`);
+      }
+      position++;
+      tokens.push({ kind: 'string', value, position: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => source.startsWith(candidate, position));
+    if (!operator) {
+      throw new ExpressionSyntaxError(`Unexpected "${char}" at ${position}`);
+    }
+    tokens.push({ kind: 'operator', value: operator, position });
+    position += operator.length;
+  }
+
+  tokens.push({ kind: 'end', position });
+  return tokens;
+}
+
+// ============================================
+// Parser
+// ============================================
+
+// Recursive descent, lowest precedence first: || → && → == != → < <= > >= → ! - → primary
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Expression {
+    const expression = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      throw new ExpressionSyntaxError(`Unexpected ${describe(next)} at ${next.position}`);
+    }
+    return expression;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private match(...operators: string[]): string | null {
+    const token = this.peek();
+    if (token.kind === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private parseBinary(operators: BinaryOperator[], next: () => Expression): Expression {
+    let left = next();
+    let operator = this.match(...operators);
+    while (operator !== null) {
+      left = { kind: 'binary', operator: operator as BinaryOperator, left, right: next() };
+      operator = this.match(...operators);
+    }
+    return left;
+  }
+
+  private parseOr = (): Expression => this.parseBinary(['||'], this.parseAnd);
+  private parseAnd = (): Expression => this.parseBinary(['&&'], this.parseEquality);
+  private parseEquality = (): Expression => this.parseBinary(['==', '!='], this.parseComparison);
+  private parseComparison = (): Expression => this.parseBinary(['<', '<=', '>', '>='], this.parseUnary);
+
+  private parseUnary = (): Expression => {
+    if (this.match('!')) {
+      return { kind: 'not', operand: this.parseUnary() };
+    }
+    if (this.match('-')) {
+      const operand = this.parseUnary();
+      // Negative numbers are plain literals
+      return operand.kind === 'literal' && typeof operand.value === 'number'
+        ? { kind: 'literal', value: -operand.value }
+        : { kind: 'negate', operand };
+    }
+    return this.parsePrimary();
+  };
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+
+    if (token.kind === 'number' || token.kind === 'string') {
+      this.index++;
+      return { kind: 'literal', value: token.value };
+    }
+
+    if (token.kind === 'identifier') {
+      this.index++;
+      if (token.value === 'true' || token.value === 'false') {
+        return { kind: 'literal', value: token.value === 'true' };
+      }
+      if (token.value === 'null') {
+        return { kind: 'literal', value: null };
+      }
+
+      const segments = [token.value];
+      while (this.match('.')) {
+        const segment = this.peek();
+        if (segment.kind !== 'identifier') {
+          throw new ExpressionSyntaxError(`Expected a property name at ${segment.position}`);
+        }
+        segments.push(segment.value);
+        this.index++;
+      }
+      return { kind: 'path', segments };
+    }
+
+    if (this.match('(')) {
+      const expression = this.parseOr();
+      if (!this.match(')')) {
+        throw new ExpressionSyntaxError(`Expected ")" at ${this.peek().position}`);
+      }
+      return expression;
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected ${describe(token)} at ${token.position}`);
+  }
+}
+
+function describe(token: Token): string {
+  return token.kind === 'end' ? 'end of expression' : `"${token.value}"`;
+}
+
+/**
+ * Parse an expression. Never throws: syntax errors are returned.
+ */
+export function parseExpression(source: string): ExpressionResult {
+  try {
+    return { valid: true, expression: new Parser(tokenize(source)).parse() };
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) {
+      return { valid: false, error: error.message };
+    }
+    if (error instanceof RangeError) {
+      return { valid: false, error: 'Expression is nested too deeply' };
+    }
+    throw error;
+  }
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+function lookup(context: unknown, segments: string[]): unknown {
+  let current = context;
+  for (const segment of segments) {
+    // Own properties only, so prototype members (constructor, __proto__) are unreachable
+    const isObject = typeof current === 'object' && current !== null;
+    if (!isObject || !Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function compare(operator: BinaryOperator, left: unknown, right: unknown): boolean {
+  const comparable = (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) return false;
+
+  const a = left as number | string;
+  const b = right as number | string;
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    default: return a >= b;
+  }
+}
+
+/**
+ * Evaluate a parsed expression against a context
+ */
+export function evaluateExpression(expression: Expression, context: Record<string, unknown>): unknown {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'path':
+      return lookup(context, expression.segments);
+    case 'not':
+      return !evaluateExpression(expression.operand, context);
+    case 'negate': {
+      const operand = evaluateExpression(expression.operand, context);
+      return typeof operand === 'number' ? -operand : undefined;
+    }
+    case 'binary': {
+      const left = evaluateExpression(expression.left, context);
+      switch (expression.operator) {
+        case '&&':
+          return Boolean(left) && Boolean(evaluateExpression(expression.right, context));
+        case '||':
+          return Boolean(left) || Boolean(evaluateExpression(expression.right, context));
+        case '==':
+        case '!=': {
+          const right = evaluateExpression(expression.right, context);
+          const equal = left === right || (left == null && right == null);
+          return expression.operator === '==' ? equal : !equal;
+        }
+        default:
+          return compare(expression.operator, left, evaluateExpression(expression.right, context));
+      }
+    }
+  }
+}
+
+// ============================================
+// Templates
+// ============================================
+
+export type TemplatePart = { kind: 'text'; text: string } | { kind: 'expression'; expression: Expression };
+
+/**
+ * Parse "text {{expression}} text" into parts
+ */
+export function parseTemplate(
+  template: string
+): { valid: true; parts: TemplatePart[] } | { valid: false; error: string } {
+  const parts: TemplatePart[] = [];
+  let position = 0;
+
+  while (position < template.length) {
+    const open = template.indexOf('{{', position);
+    if (open === -1) {
+      parts.push({ kind: 'text', text: template.slice(position) });
+      break;
+    }
+    if (open > position) {
+      parts.push({ kind: 'text', text: template.slice(position, open) });
+    }
+
+    const close = template.indexOf('}}', open + 2);
+    if (close === -1) {
+      return { valid: false, error: `Unclosed "{{" at ${open}` };
+    }
+    const parsed = parseExpression(template.slice(open + 2, close));
+    if (!parsed.valid) {
+      return { valid: false, error: `{{${template.slice(open + 2, close)}}}: ${parsed.error}` };
+    }
+    parts.push({ kind: 'expression', expression: parsed.expression });
+    position = close + 2;
+  }
+
+  return { valid: true, parts };
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Interpolate a template against a context (missing values become empty strings)
+ */
+export function renderTemplate(
+  template: string,
+  context: Record<string, unknown>
+): { valid: true; text: string } | { valid: false; error: string } {
+  const parsed = parseTemplate(template);
+  if (!parsed.valid) {
+    return parsed;
+  }
+
+  return { valid: true, text: joinParts(parsed.parts, context) };
+}
+
+/**
+ * Like renderTemplate, but a template that is exactly one {{expression}}
+ * yields the expression's value as-is (so "{{props.util}}" stays a number)
+ */
+export function renderTemplateValue(
+  template: string,
+  context: Record<string, unknown>
+): { valid: true; value: unknown } | { valid: false; error: string } {
+  const parsed = parseTemplate(template);
+  if (!parsed.valid) {
+    return parsed;
+  }
+
+  const [only] = parsed.parts;
+  if (parsed.parts.length === 1 && only.kind === 'expression') {
+    const value = evaluateExpression(only.expression, context);
+    return { valid: true, value: value ?? '' };
+  }
+  return { valid: true, value: joinParts(parsed.parts, context) };
+}
+
+function joinParts(parts: TemplatePart[], context: Record<string, unknown>): string {
+  return parts
+    .map(part => (part.kind === 'text' ? part.text : formatValue(evaluateExpression(part.expression, context))))
+    .join('');
+}
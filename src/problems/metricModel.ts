@@ -0,0 +1,225 @@
+/**
+ * Canonical Metric Model
+ *
+ * The problems each grew their own metric shape:
+ * - MetricData (problem1): parser output, ISO string timestamp, optional unit/tags
+ * - Metric (problem4): inferred from MetricSchema, string[] tags
+ * - RawMetric (problem5): pipeline input, Date timestamp and a step counter
+ *
+ * CanonicalMetric is the superset of all three. Every shape converts to and
+ * from it, so a payload can be parsed leniently, checked against the Zod
+ * schema and handed to TransformPipeline without hand-written mapping:
+ *
+ * const prepared = prepareMetrics(payload, 'coerce');
+ * const chart = await new TransformPipeline<CanonicalMetric[]>()
+ *   .pipe(toRawMetrics)
+ *   .pipe(transformers.formatForChart())
+ *   .execute(prepared.metrics);
+ */
+
+import { parseMetrics, type MetricData, type ParseError, type ParsePolicyInput } from './problem1';
+import { validateMetric, type Metric } from './problem4';
+import type { RawMetric } from './problem5';
+
+// ============================================
+// Canonical Model
+// ============================================
+
+export interface CanonicalMetric {
+  id: string;
+  name: string;
+  value: number;
+  timestamp: Date;
+  step?: number;
+  unit?: string;
+  tags?: Record<string, string>;
+  metadata?: Record<string, any>;
+}
+
+// ============================================
+// Converters
+// ============================================
+
+/**
+ * MetricData (parser output) → CanonicalMetric
+ */
+export function fromMetricData(metric: MetricData): CanonicalMetric {
+  const canonical: CanonicalMetric = {
+    id: metric.id,
+    name: metric.name,
+    value: metric.value,
+    timestamp: new Date(metric.timestamp)
+  };
+  if (metric.unit !== undefined) canonical.unit = metric.unit;
+  if (metric.tags !== undefined) canonical.tags = { ...metric.tags };
+  return canonical;
+}
+
+/**
+ * CanonicalMetric → MetricData
+ */
+export function toMetricData(metric: CanonicalMetric): MetricData {
+  const data: MetricData = {
+    id: metric.id,
+    name: metric.name,
+    value: metric.value,
+    timestamp: metric.timestamp.toISOString()
+  };
+  if (metric.unit !== undefined) data.unit = metric.unit;
+  if (metric.tags !== undefined) data.tags = { ...metric.tags };
+  return data;
+}
+
+// Schema tags are plain strings: "key=value" for labels, a bare "key" for flags
+function tagsFromList(tags: string[]): Record<string, string> {
+  const record: Record<string, string> = {};
+  for (const tag of tags) {
+    const separator = tag.indexOf('=');
+    if (separator === -1) {
+      record[tag] = '';
+    } else {
+      record[tag.slice(0, separator)] = tag.slice(separator + 1);
+    }
+  }
+  return record;
+}
+
+function tagsToList(tags: Record<string, string>): string[] {
+  return Object.entries(tags).map(([key, value]) => (value === '' ? key : `${key}=${value}`));
+}
+
+/**
+ * Metric (MetricSchema) → CanonicalMetric
+ */
+export function fromSchemaMetric(metric: Metric): CanonicalMetric {
+  const canonical: CanonicalMetric = {
+    id: metric.id,
+    name: metric.name,
+    value: metric.value,
+    timestamp: new Date(metric.timestamp)
+  };
+  if (metric.unit !== undefined) canonical.unit = metric.unit;
+  if (metric.tags !== undefined) canonical.tags = tagsFromList(metric.tags);
+  return canonical;
+}
+
+/**
+ * CanonicalMetric → Metric (not validated; run validateMetric on the result)
+ */
+export function toSchemaMetric(metric: CanonicalMetric): Metric {
+  const schemaMetric: Metric = {
+    id: metric.id,
+    name: metric.name,
+    value: metric.value,
+    timestamp: metric.timestamp.toISOString()
+  };
+  if (metric.unit !== undefined) schemaMetric.unit = metric.unit;
+  if (metric.tags !== undefined) schemaMetric.tags = tagsToList(metric.tags);
+  return schemaMetric;
+}
+
+/**
+ * RawMetric (pipeline) → CanonicalMetric
+ *
+ * RawMetric has no id, unit or tags of its own; they are read back from
+ * metadata (where toRawMetric stores them), and the id falls back to the name.
+ */
+export function fromRawMetric(metric: RawMetric): CanonicalMetric {
+  const { id, unit, tags, ...metadata } = metric.metadata ?? {};
+  const canonical: CanonicalMetric = {
+    id: typeof id === 'string' ? id : metric.name,
+    name: metric.name,
+    value: metric.value,
+    timestamp: new Date(metric.timestamp.getTime()),
+    step: metric.step
+  };
+  if (typeof unit === 'string') canonical.unit = unit;
+  if (tags !== undefined) canonical.tags = { ...tags };
+  if (Object.keys(metadata).length > 0) canonical.metadata = metadata;
+  return canonical;
+}
+
+/**
+ * CanonicalMetric → RawMetric
+ *
+ * id, unit and tags travel in metadata so they survive the pipeline.
+ * A missing step defaults to 0; use toRawMetrics to number a whole batch.
+ */
+export function toRawMetric(metric: CanonicalMetric): RawMetric {
+  const metadata: Record<string, any> = { ...metric.metadata, id: metric.id };
+  if (metric.unit !== undefined) metadata.unit = metric.unit;
+  if (metric.tags !== undefined) metadata.tags = { ...metric.tags };
+
+  return {
+    timestamp: new Date(metric.timestamp.getTime()),
+    name: metric.name,
+    value: metric.value,
+    step: metric.step ?? 0,
+    metadata
+  };
+}
+
+/**
+ * Convert a batch for TransformPipeline. Metrics without a step are numbered
+ * per name in timestamp order, continuing after the highest explicit step.
+ * Usable directly as the first pipeline transformer.
+ */
+export function toRawMetrics(metrics: CanonicalMetric[]): RawMetric[] {
+  const nextStep = new Map<string, number>();
+  for (const metric of metrics) {
+    if (metric.step !== undefined) {
+      nextStep.set(metric.name, Math.max(nextStep.get(metric.name) ?? 0, metric.step + 1));
+    }
+  }
+
+  const unnumbered = metrics
+    .filter(metric => metric.step === undefined)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const steps = new Map<CanonicalMetric, number>();
+  for (const metric of unnumbered) {
+    const step = nextStep.get(metric.name) ?? 0;
+    steps.set(metric, step);
+    nextStep.set(metric.name, step + 1);
+  }
+
+  return metrics.map(metric => toRawMetric({ ...metric, step: metric.step ?? steps.get(metric) }));
+}
+
+// ============================================
+// Parse → Validate → Pipeline
+// ============================================
+
+// A parsed metric that MetricSchema rejected
+export interface SchemaRejection {
+  metric: MetricData;
+  errors: string[];
+}
+
+export interface PreparedMetrics {
+  metrics: CanonicalMetric[]; // Passed both the parser and MetricSchema
+  parseErrors: ParseError[];
+  schemaErrors: SchemaRejection[];
+}
+
+/**
+ * Parse a payload with parseMetrics (using the given policy), check every
+ * parsed metric against MetricSchema and return the survivors in canonical form
+ */
+export function prepareMetrics(jsonData: unknown[], policy?: ParsePolicyInput): PreparedMetrics {
+  const parsed = parseMetrics(jsonData, policy);
+  const metrics: CanonicalMetric[] = [];
+  const schemaErrors: SchemaRejection[] = [];
+
+  for (const metric of parsed.valid) {
+    const canonical = fromMetricData(metric);
+    const result = validateMetric(toSchemaMetric(canonical));
+
+    if (result.success) {
+      metrics.push(canonical);
+    } else {
+      schemaErrors.push({ metric, errors: result.errors });
+    }
+  }
+
+  return { metrics, parseErrors: parsed.errors, schemaErrors };
+}
@@ -26,121 +26,1830 @@
  */
 
 // TODO: Define your interfaces here
-interface MetricData {
+export interface MetricData {
   id: string;
   name: string;
   value: number;
   timestamp: string;
   unit?: string;  // Optional field, like String? in Kotlin/Swift or str | None in Python
+  tags?: Record<string, string>; // Optional labels, e.g. Prometheus labels
+  coercions?: Coercion[]; // Present only when the parse policy rewrote a raw field
+  anomalies?: Anomaly[]; // Present only when anomaly rules flagged the value
 }
-interface ParseError {
-  index: number;
+// Why a single field failed validation
+export type ParseErrorCode = 'missing' | 'wrong_type' | 'out_of_range' | 'bad_format' | 'duplicate';
+
+// One violation within an item
+export interface FieldIssue {
+  path: string; // Field name, or '' when the whole item is at fault
+  code: ParseErrorCode;
   reason: string;
+  raw: unknown; // The offending raw value
 }
-interface ParseResult {
+
+export interface ParseError {
+  index: number;
+  reason: string; // Message of the first issue (kept for backward compatibility)
+  issues: FieldIssue[]; // Every violation found in the item
+  id?: string; // The item's id, when it has a usable one
+  offset?: number; // Byte offset in the source stream (streaming input only)
+  line?: number;   // 1-based line number in the source text (streaming and text adapters)
+}
+// Soft problem with an item that was still accepted (or merged / dropped by policy)
+export interface ParseWarning {
+  index: number;
+  id: string;
+  code: 'duplicate' | 'out_of_order';
+  message: string;
+}
+
+export interface ParseResult {
   valid: MetricData[];
   errors: ParseError[];
+  warnings: ParseWarning[];
 }
-// Helper function to check if a value is a valid number or numeric string
-function isValidNumber(value: unknown): boolean {
-  if (typeof value === 'number' && !isNaN(value)) {
-    return true;
+// ============================================
+// Parsing Policy
+// ============================================
+
+// How forgiving the parser is for a single field
+export type FieldMode = 'strict' | 'lenient' | 'coerce';
+
+/**
+ * Per-field parsing rules.
+ *
+ * - value: strict = JSON numbers only, lenient = numeric strings too,
+ *   coerce = also numbers with a unit suffix ("75%", "12.5 GB")
+ * - timestamp: strict = full ISO 8601 with time zone, lenient = anything
+ *   Date can parse that contains a "T", coerce = also epoch seconds/ms and
+ *   RFC 2822 dates (normalized to ISO 8601)
+ * - unit: strict = non-empty string when present, lenient = any string,
+ *   coerce = trimmed, empty or non-string units are dropped
+ * - nonFinite: whether NaN / Infinity values are accepted
+ * - normalizeUnits: convert values with a known unit to their dimension's
+ *   canonical unit (see the unit registry below)
+ * - duplicates: what to do with several items sharing an id and timestamp
+ *   (allow = keep all, keep-first / keep-last, error, average the values
+ *   in the first item's unit)
+ * - checkOrder: warn when an id's timestamps go backwards
+ * - anomalies: range and outlier rules that flag suspicious values
+ *
+ * duplicates, checkOrder and anomalies need the whole batch, so they only
+ * apply to parseMetrics (and parseMetricsWith), not parseMetricStream.
+ */
+export interface ParsePolicy {
+  value: FieldMode;
+  timestamp: FieldMode;
+  unit: FieldMode;
+  nonFinite: 'reject' | 'allow';
+  normalizeUnits: boolean;
+  duplicates: DuplicateResolution;
+  checkOrder: boolean;
+  anomalies?: AnomalyOptions;
+}
+
+export type DuplicateResolution = 'allow' | 'keep-first' | 'keep-last' | 'error' | 'average';
+
+export type ParsePolicyName = 'strict' | 'lenient' | 'coerce';
+
+// Settings shared by every preset
+const policyDefaults = {
+  nonFinite: 'reject',
+  normalizeUnits: false,
+  duplicates: 'allow',
+  checkOrder: false
+} as const;
+
+export const parsePolicies: Record<ParsePolicyName, ParsePolicy> = {
+  strict: { ...policyDefaults, value: 'strict', timestamp: 'strict', unit: 'strict' },
+  lenient: { ...policyDefaults, value: 'lenient', timestamp: 'lenient', unit: 'lenient' },
+  coerce: { ...policyDefaults, value: 'coerce', timestamp: 'coerce', unit: 'coerce' }
+};
+
+// Accept a preset name, a partial override of the lenient defaults, or nothing
+export type ParsePolicyInput = ParsePolicyName | Partial<ParsePolicy>;
+
+export function resolvePolicy(policy: ParsePolicyInput = 'lenient'): ParsePolicy {
+  if (typeof policy === 'string') {
+    return parsePolicies[policy];
+  }
+  return { ...parsePolicies.lenient, ...policy };
+}
+
+// Which rule turned a raw field into its parsed value
+export type CoercionRule =
+  | 'numeric-string'
+  | 'unit-suffix'
+  | 'non-finite'
+  | 'epoch-seconds'
+  | 'epoch-millis'
+  | 'rfc2822'
+  | 'trimmed'
+  | 'dropped'
+  | 'normalized'
+  | 'averaged';
+
+export interface Coercion {
+  field: 'value' | 'timestamp' | 'unit';
+  rule: CoercionRule;
+  raw: unknown;
+}
+
+// Result of parsing one field under a policy
+type FieldResult<T> =
+  | { ok: true; value: T; coercions: Coercion[] }
+  | { ok: false; code: ParseErrorCode; reason: string };
+
+const NON_FINITE: Record<string, number> = {
+  nan: NaN,
+  infinity: Infinity,
+  '+infinity': Infinity,
+  '-infinity': -Infinity,
+  inf: Infinity,
+  '+inf': Infinity,
+  '-inf': -Infinity
+};
+
+// Matches "75%", "12.5 GB", "-3e2 ms"
+const NUMBER_WITH_UNIT = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*([a-zA-Z%°µ][\w%°µ/]*)$/i;
+
+// Full ISO 8601 date-time with an explicit time zone
+const ISO_8601 = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/;
+
+// e.g. "Mon, 27 Oct 2025 10:00:00 +0000" (weekday optional)
+const RFC_2822 =
+  /^(?:[A-Za-z]{3},\s*)?\d{1,2}\s+[A-Za-z]{3}\s+\d{4}\s+\d{2}:\d{2}(?::\d{2})?\s+(?:[+-]\d{4}|[A-Za-z]{1,3})$/;
+
+// Epoch values below this are treated as seconds, above as milliseconds
+const EPOCH_MILLIS_THRESHOLD = 1e11;
+
+function parseValue(
+  raw: unknown,
+  policy: ParsePolicy
+): FieldResult<{ value: number; unit?: string }> {
+  const reason = 'Missing or invalid required field: value (must be a number)';
+  const coercions: Coercion[] = [];
+  let value: number;
+  let unit: string | undefined;
+
+  if (typeof raw === 'number') {
+    value = raw;
+  } else if (typeof raw === 'string' && policy.value !== 'strict') {
+    const text = raw.trim();
+    const suffixed = policy.value === 'coerce' ? NUMBER_WITH_UNIT.exec(text) : null;
+
+    if (text.toLowerCase() in NON_FINITE) {
+      value = NON_FINITE[text.toLowerCase()];
+      coercions.push({ field: 'value', rule: 'non-finite', raw });
+    } else if (text !== '' && !isNaN(Number(text))) {
+      value = Number(text);
+      coercions.push({ field: 'value', rule: 'numeric-string', raw });
+    } else if (suffixed) {
+      value = Number(suffixed[1]);
+      unit = suffixed[2];
+      coercions.push({ field: 'value', rule: 'unit-suffix', raw });
+    } else {
+      return { ok: false, code: text === '' ? 'missing' : 'bad_format', reason };
+    }
+  } else {
+    return { ok: false, code: raw === undefined || raw === null ? 'missing' : 'wrong_type', reason };
   }
-  if (typeof value === 'string') {
-    const num = Number(value);
-    return !isNaN(num);
+
+  if (!Number.isFinite(value) && policy.nonFinite === 'reject') {
+    return { ok: false, code: 'out_of_range', reason: 'Invalid field: value (must be a finite number)' };
   }
-  return false;
+
+  return { ok: true, value: { value, unit }, coercions };
 }
 
-// Helper function to convert to number (handles string numbers)
-function toNumber(value: unknown): number {
-  if (typeof value === 'number') {
-    return value;
+function parseTimestamp(raw: unknown, policy: ParsePolicy): FieldResult<string> {
+  const reason = 'Missing or invalid required field: timestamp (must be valid ISO 8601 format)';
+  const invalid: FieldResult<string> =
+    raw === undefined || raw === null || raw === ''
+      ? { ok: false, code: 'missing', reason }
+      : typeof raw === 'string' || (typeof raw === 'number' && policy.timestamp === 'coerce')
+        ? { ok: false, code: 'bad_format', reason }
+        : { ok: false, code: 'wrong_type', reason };
+
+  if (typeof raw === 'string') {
+    const parsed = Date.parse(raw);
+    const isIso = policy.timestamp === 'strict' ? ISO_8601.test(raw) : raw.includes('T');
+    if (!isNaN(parsed) && isIso) {
+      return { ok: true, value: raw, coercions: [] };
+    }
   }
-  return Number(value);
+
+  if (policy.timestamp !== 'coerce') {
+    return invalid;
+  }
+
+  // Epoch seconds or milliseconds, as a number or numeric string
+  const epoch = typeof raw === 'number' ? raw : typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : NaN;
+  if (Number.isFinite(epoch)) {
+    const isMillis = Math.abs(epoch) >= EPOCH_MILLIS_THRESHOLD;
+    const date = new Date(isMillis ? epoch : epoch * 1000);
+    if (isNaN(date.getTime())) {
+      return { ok: false, code: 'out_of_range', reason };
+    }
+    return {
+      ok: true,
+      value: date.toISOString(),
+      coercions: [{ field: 'timestamp', rule: isMillis ? 'epoch-millis' : 'epoch-seconds', raw }]
+    };
+  }
+
+  if (typeof raw === 'string' && RFC_2822.test(raw.trim()) && !isNaN(Date.parse(raw))) {
+    return {
+      ok: true,
+      value: new Date(raw).toISOString(),
+      coercions: [{ field: 'timestamp', rule: 'rfc2822', raw }]
+    };
+  }
+
+  return invalid;
 }
-// Helper function to validate ISO 8601 date format
-function isValidTimestamp(timestamp: unknown): boolean {
-  if (typeof timestamp !== 'string') {
-    return false;
+
+function parseUnit(raw: unknown, policy: ParsePolicy): FieldResult<string | undefined> {
+  if (raw === undefined) {
+    return { ok: true, value: undefined, coercions: [] };
+  }
+
+  switch (policy.unit) {
+    case 'strict':
+      if (typeof raw !== 'string' || raw.trim() === '') {
+        return {
+          ok: false,
+          code: typeof raw === 'string' ? 'bad_format' : 'wrong_type',
+          reason: 'Invalid optional field: unit (must be a non-empty string)'
+        };
+      }
+      return { ok: true, value: raw, coercions: [] };
+    case 'lenient':
+      // Non-string units are ignored, strings are kept verbatim
+      return { ok: true, value: typeof raw === 'string' ? raw : undefined, coercions: [] };
+    case 'coerce': {
+      const trimmed = typeof raw === 'string' ? raw.trim() : '';
+      if (trimmed === '') {
+        return { ok: true, value: undefined, coercions: [{ field: 'unit', rule: 'dropped', raw }] };
+      }
+      return {
+        ok: true,
+        value: trimmed,
+        coercions: trimmed === raw ? [] : [{ field: 'unit', rule: 'trimmed', raw }]
+      };
+    }
   }
-  // Check if it's a valid ISO 8601 date string
-  const date = new Date(timestamp);
-  return !isNaN(date.getTime()) && timestamp.includes('T');
 }
-// TODO: Implement the parser
-export function parseMetrics(jsonData: unknown[]): ParseResult {
-  const valid: MetricData[] = [];
-  const errors: ParseError[] = [];
 
-  // Iterate through each item with its index
-  jsonData.forEach((item, index) => {
-    // Type guard: ensure item is an object
-    if (typeof item !== 'object' || item === null) {
-      errors.push({
-        index,
-        reason: 'Item is not an object'
-      });
-      return; // Continue to next item (like 'continue' in a for loop)
+// ============================================
+// Units
+// ============================================
+
+// Physical quantity a unit measures
+export type Dimension = 'bytes' | 'temperature' | 'percent' | 'time' | 'power' | 'frequency';
+
+/**
+ * A unit and how to reach its dimension's canonical unit:
+ * canonical = value * factor + offset
+ */
+export interface UnitDefinition {
+  symbol: string;
+  dimension: Dimension;
+  factor: number;
+  offset?: number;
+}
+
+// Canonical unit per dimension (the unit values are normalized to)
+export const canonicalUnits: Record<Dimension, string> = {
+  bytes: 'B',
+  temperature: '°C',
+  percent: '%',
+  time: 's',
+  power: 'W',
+  frequency: 'Hz'
+};
+
+/**
+ * Registry of known units, keyed by symbol and aliases.
+ *
+ * Lookups are case-sensitive first ("mW" vs "MW"), then fall back to a
+ * case-insensitive match when only one unit could be meant ("gb" → GB).
+ */
+export class UnitRegistry {
+  private bySymbol = new Map<string, UnitDefinition>();
+  private byLowerCase = new Map<string, UnitDefinition[]>();
+
+  /**
+   * Register a unit under its symbol and any aliases
+   */
+  register(definition: UnitDefinition, aliases: string[] = []): void {
+    for (const key of [definition.symbol, ...aliases]) {
+      this.bySymbol.set(key, definition);
+
+      const lower = key.toLowerCase();
+      const matches = (this.byLowerCase.get(lower) ?? []).filter(d => d.symbol !== definition.symbol);
+      this.byLowerCase.set(lower, [...matches, definition]);
     }
+  }
 
-    // Cast to any to access properties (we'll validate them)
-    const data = item as any;
+  /**
+   * Resolve a unit string, or null if it is unknown or ambiguous
+   */
+  parse(unit: string): UnitDefinition | null {
+    const key = unit.trim();
+    const exact = this.bySymbol.get(key);
+    if (exact) {
+      return exact;
+    }
 
-    // Validate required field: id
-    if (typeof data.id !== 'string' || data.id.trim() === '') {
-      errors.push({
-        index,
-        reason: 'Missing or invalid required field: id'
+    const candidates = this.byLowerCase.get(key.toLowerCase()) ?? [];
+    return candidates.length === 1 ? candidates[0] : null;
+  }
+
+  /**
+   * Convert a value to its dimension's canonical unit
+   */
+  toCanonical(value: number, unit: string): { value: number; unit: string; dimension: Dimension } | null {
+    const definition = this.parse(unit);
+    if (!definition) {
+      return null;
+    }
+
+    return {
+      value: value * definition.factor + (definition.offset ?? 0),
+      unit: canonicalUnits[definition.dimension],
+      dimension: definition.dimension
+    };
+  }
+
+  /**
+   * Convert a value between two units of the same dimension,
+   * or null if either unit is unknown or the dimensions differ
+   */
+  convert(value: number, from: string, to: string): number | null {
+    const source = this.parse(from);
+    const target = this.parse(to);
+    if (!source || !target || source.dimension !== target.dimension) {
+      return null;
+    }
+
+    const canonical = value * source.factor + (source.offset ?? 0);
+    return (canonical - (target.offset ?? 0)) / target.factor;
+  }
+
+  /**
+   * Whether two unit strings measure the same dimension
+   */
+  isCompatible(a: string, b: string): boolean {
+    const first = this.parse(a);
+    const second = this.parse(b);
+    return first !== null && second !== null && first.dimension === second.dimension;
+  }
+}
+
+// Default registry used by the parser; register extra units on it as needed
+export const units = new UnitRegistry();
+
+const defaultUnits: [UnitDefinition, string[]][] = [
+  // Bytes: SI (powers of 1000) and IEC (powers of 1024)
+  [{ symbol: 'B', dimension: 'bytes', factor: 1 }, ['byte', 'bytes']],
+  [{ symbol: 'KB', dimension: 'bytes', factor: 1e3 }, ['kB']],
+  [{ symbol: 'MB', dimension: 'bytes', factor: 1e6 }, []],
+  [{ symbol: 'GB', dimension: 'bytes', factor: 1e9 }, []],
+  [{ symbol: 'TB', dimension: 'bytes', factor: 1e12 }, []],
+  [{ symbol: 'KiB', dimension: 'bytes', factor: 1024 }, []],
+  [{ symbol: 'MiB', dimension: 'bytes', factor: 1024 ** 2 }, []],
+  [{ symbol: 'GiB', dimension: 'bytes', factor: 1024 ** 3 }, []],
+  [{ symbol: 'TiB', dimension: 'bytes', factor: 1024 ** 4 }, []],
+  // Temperature
+  [{ symbol: '°C', dimension: 'temperature', factor: 1 }, ['C', 'degC', 'celsius']],
+  [{ symbol: '°F', dimension: 'temperature', factor: 5 / 9, offset: -32 * 5 / 9 }, ['F', 'degF', 'fahrenheit']],
+  [{ symbol: 'K', dimension: 'temperature', factor: 1, offset: -273.15 }, ['kelvin']],
+  // Percent
+  [{ symbol: '%', dimension: 'percent', factor: 1 }, ['percent', 'pct']],
+  [{ symbol: 'fraction', dimension: 'percent', factor: 100 }, ['ratio']],
+  // Time
+  [{ symbol: 's', dimension: 'time', factor: 1 }, ['sec', 'secs', 'second', 'seconds']],
+  [{ symbol: 'ms', dimension: 'time', factor: 1e-3 }, ['millisecond', 'milliseconds']],
+  [{ symbol: 'µs', dimension: 'time', factor: 1e-6 }, ['us', 'microsecond', 'microseconds']],
+  [{ symbol: 'ns', dimension: 'time', factor: 1e-9 }, ['nanosecond', 'nanoseconds']],
+  [{ symbol: 'min', dimension: 'time', factor: 60 }, ['minute', 'minutes']],
+  [{ symbol: 'h', dimension: 'time', factor: 3600 }, ['hr', 'hour', 'hours']],
+  // Power
+  [{ symbol: 'W', dimension: 'power', factor: 1 }, ['watt', 'watts']],
+  [{ symbol: 'mW', dimension: 'power', factor: 1e-3 }, []],
+  [{ symbol: 'kW', dimension: 'power', factor: 1e3 }, []],
+  [{ symbol: 'MW', dimension: 'power', factor: 1e6 }, []],
+  // Frequency
+  [{ symbol: 'Hz', dimension: 'frequency', factor: 1 }, ['hertz']],
+  [{ symbol: 'kHz', dimension: 'frequency', factor: 1e3 }, []],
+  [{ symbol: 'MHz', dimension: 'frequency', factor: 1e6 }, []],
+  [{ symbol: 'GHz', dimension: 'frequency', factor: 1e9 }, []]
+];
+
+for (const [definition, aliases] of defaultUnits) {
+  units.register(definition, aliases);
+}
+
+/**
+ * Convert a parsed metric to another unit of the same dimension,
+ * e.g. to chart MiB and GB memory readings on one axis
+ */
+export function convertMetric(metric: MetricData, to: string, registry: UnitRegistry = units): MetricData | null {
+  if (metric.unit === undefined) {
+    return null;
+  }
+
+  const value = registry.convert(metric.value, metric.unit, to);
+  if (value === null) {
+    return null;
+  }
+
+  return { ...metric, value, unit: to };
+}
+
+// ============================================
+// Parser
+// ============================================
+
+// Outcome of validating a single raw item
+type ItemResult = { metric: MetricData } | { error: ParseError };
+
+// Build a ParseError from the issues collected for one item
+function toParseError(index: number, issues: FieldIssue[], id?: string): ParseError {
+  const error: ParseError = { index, reason: issues[0].reason, issues };
+  if (id !== undefined) {
+    error.id = id;
+  }
+  return error;
+}
+
+// Check a required non-empty string field (id, name)
+function checkRequiredString(data: Record<string, unknown>, field: 'id' | 'name', issues: FieldIssue[]): void {
+  const raw: unknown = data[field];
+  if (typeof raw === 'string' && raw.trim() !== '') {
+    return;
+  }
+  // Blank strings and absent values are missing; anything else has the wrong type
+  const isMissing = raw === undefined || raw === null || typeof raw === 'string';
+  issues.push({
+    path: field,
+    code: isMissing ? 'missing' : 'wrong_type',
+    reason: `Missing or invalid required field: ${field}`,
+    raw
+  });
+}
+
+// Whether two unit strings name the same unit: aliases ("percent" and "%") resolve to one definition,
+// and unknown units only match themselves
+function isSameUnit(a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+  const first = units.parse(a);
+  return first !== null && first === units.parse(b);
+}
+
+// Validate one raw item and either build a MetricData or report every problem with it
+function parseItem(item: unknown, index: number, policy: ParsePolicy): ItemResult {
+  // Type guard: ensure item is an object
+  if (typeof item !== 'object' || item === null) {
+    return {
+      error: toParseError(index, [
+        { path: '', code: 'wrong_type', reason: 'Item is not an object', raw: item }
+      ])
+    };
+  }
+
+  // Every field is unknown until validated
+  const data = item as Record<string, unknown>;
+  const id = typeof data.id === 'string' && data.id.trim() !== '' ? data.id : undefined;
+  const name = typeof data.name === 'string' ? data.name : undefined;
+  const issues: FieldIssue[] = [];
+
+  // Validate required fields: id and name
+  checkRequiredString(data, 'id', issues);
+  checkRequiredString(data, 'name', issues);
+
+  // Validate required field: value (number, or string forms the policy allows)
+  const value = parseValue(data.value, policy);
+  if (!value.ok) {
+    issues.push({ path: 'value', code: value.code, reason: value.reason, raw: data.value });
+  }
+
+  // Validate required field: timestamp
+  const timestamp = parseTimestamp(data.timestamp, policy);
+  if (!timestamp.ok) {
+    issues.push({ path: 'timestamp', code: timestamp.code, reason: timestamp.reason, raw: data.timestamp });
+  }
+
+  // Validate optional field: unit
+  const unit = parseUnit(data.unit, policy);
+  if (!unit.ok) {
+    issues.push({ path: 'unit', code: unit.code, reason: unit.reason, raw: data.unit });
+  }
+
+  // Validate optional field: tags (string labels)
+  let tags: Record<string, string> | undefined;
+  if (data.tags !== undefined) {
+    if (typeof data.tags !== 'object' || data.tags === null || Array.isArray(data.tags)) {
+      issues.push({
+        path: 'tags',
+        code: 'wrong_type',
+        reason: 'Invalid optional field: tags (must be an object of strings)',
+        raw: data.tags
       });
+    } else {
+      tags = {};
+      const entries: [string, unknown][] = Object.entries(data.tags);
+      for (const [key, tag] of entries) {
+        if (typeof tag === 'string') {
+          tags[key] = tag;
+        } else {
+          issues.push({
+            path: `tags.${key}`,
+            code: 'wrong_type',
+            reason: `Invalid optional field: tags.${key} (must be a string)`,
+            raw: tag
+          });
+        }
+      }
+    }
+  }
+
+  // A unit embedded in the value ("12.5 GB") must agree with an explicit unit
+  const valueUnit = value.ok ? value.value.unit : undefined;
+  if (unit.ok && valueUnit !== undefined && unit.value !== undefined && !isSameUnit(valueUnit, unit.value)) {
+    issues.push({
+      path: 'unit',
+      code: 'bad_format',
+      reason: `Conflicting units: value has "${valueUnit}" but unit is "${unit.value}"`,
+      raw: data.unit
+    });
+  }
+
+  // (id and name are only undefined when checkRequiredString reported them)
+  if (issues.length > 0 || !value.ok || !timestamp.ok || !unit.ok || id === undefined || name === undefined) {
+    return { error: toParseError(index, issues, id) };
+  }
+
+  // All validations passed - create the MetricData object
+  const metricData: MetricData = {
+    id,
+    name,
+    value: value.value.value,
+    timestamp: timestamp.value
+  };
+
+  // Add optional unit field if present
+  const resolvedUnit = unit.value ?? valueUnit;
+  if (resolvedUnit !== undefined) {
+    metricData.unit = resolvedUnit;
+  }
+
+  // Add optional tags if present
+  if (tags !== undefined) {
+    metricData.tags = tags;
+  }
+
+  // Record every coercion that was applied
+  const coercions = [...value.coercions, ...timestamp.coercions, ...unit.coercions];
+
+  // Normalize known units to their dimension's canonical unit
+  if (policy.normalizeUnits && metricData.unit !== undefined) {
+    const canonical = units.toCanonical(metricData.value, metricData.unit);
+    if (canonical && canonical.unit !== metricData.unit) {
+      coercions.push(
+        { field: 'value', rule: 'normalized', raw: metricData.value },
+        { field: 'unit', rule: 'normalized', raw: metricData.unit }
+      );
+      metricData.value = canonical.value;
+      metricData.unit = canonical.unit;
+    }
+  }
+  if (coercions.length > 0) {
+    metricData.coercions = coercions;
+  }
+
+  return { metric: metricData };
+}
+
+// TODO: Implement the parser
+export function parseMetrics(jsonData: unknown[], policy?: ParsePolicyInput): ParseResult {
+  return parseRecords(jsonData.map(item => ({ item })), resolvePolicy(policy));
+}
+
+// Validate a batch of records (decoded items or format errors) and run batch-level checks
+function parseRecords(records: InputRecord[], policy: ParsePolicy): ParseResult {
+  let entries: IndexedMetric[] = [];
+  const errors: ParseError[] = [];
+  const warnings: ParseWarning[] = [];
+
+  // Iterate through each record with its index
+  records.forEach((record, index) => {
+    const position = record.line === undefined ? {} : { line: record.line };
+
+    if ('error' in record) {
+      errors.push({ ...formatError(index, record.error, record.raw), ...position });
       return;
     }
 
-    // Validate required field: name
-    if (typeof data.name !== 'string' || data.name.trim() === '') {
-      errors.push({
+    const result = parseItem(record.item, index, policy);
+    if ('error' in result) {
+      errors.push({ ...result.error, ...position });
+    } else {
+      entries.push({ index, metric: result.metric });
+    }
+  });
+
+  // Batch-level checks across items
+  if (policy.duplicates !== 'allow') {
+    entries = resolveDuplicates(entries, policy.duplicates, errors, warnings);
+    errors.sort((a, b) => a.index - b.index);
+  }
+  if (policy.checkOrder) {
+    warnings.push(...checkOrder(entries));
+    warnings.sort((a, b) => a.index - b.index);
+  }
+
+  let valid = entries.map(entry => entry.metric);
+  if (policy.anomalies) {
+    valid = flagAnomalies(valid, policy.anomalies);
+  }
+
+  return { valid, errors, warnings };
+}
+
+// ============================================
+// Duplicates & Ordering
+// ============================================
+
+// A validated metric together with its position in the input
+interface IndexedMetric {
+  index: number;
+  metric: MetricData;
+}
+
+// Duplicates share an id and an instant in time (however the timestamp was written)
+function duplicateKey(metric: MetricData): string {
+  return `${metric.id}\u0000${Date.parse(metric.timestamp)}`;
+}
+
+/**
+ * Collapse items that share an id and timestamp (e.g. retried uploads).
+ * Returns the surviving entries in input order; dropped items are reported
+ * as warnings, or as errors when resolution is 'error' (or when 'average'
+ * meets a unit that does not convert to the first item's).
+ */
+function resolveDuplicates(
+  entries: IndexedMetric[],
+  resolution: Exclude<DuplicateResolution, 'allow'>,
+  errors: ParseError[],
+  warnings: ParseWarning[]
+): IndexedMetric[] {
+  const groups = new Map<string, IndexedMetric[]>();
+  for (const entry of entries) {
+    const key = duplicateKey(entry.metric);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(entry);
+  }
+
+  const kept: IndexedMetric[] = [];
+
+  for (const group of groups.values()) {
+    if (group.length === 1) {
+      kept.push(group[0]);
+      continue;
+    }
+
+    const first = group[0];
+    const { id, timestamp } = first.metric;
+
+    switch (resolution) {
+      case 'keep-first':
+      case 'keep-last': {
+        const survivor = resolution === 'keep-first' ? first : group[group.length - 1];
+        kept.push(survivor);
+        for (const entry of group) {
+          if (entry !== survivor) {
+            warnings.push({
+              index: entry.index,
+              id,
+              code: 'duplicate',
+              message: `Duplicate of item ${survivor.index} (${id} at ${timestamp}), dropped`
+            });
+          }
+        }
+        break;
+      }
+      case 'error': {
+        kept.push(first);
+        for (const entry of group.slice(1)) {
+          const reason = `Duplicate of item ${first.index} (${id} at ${timestamp})`;
+          errors.push(
+            toParseError(entry.index, [{ path: '', code: 'duplicate', reason, raw: entry.metric }], id)
+          );
+        }
+        break;
+      }
+      case 'average': {
+        // Values are averaged in the first item's unit; one that cannot be converted is not merged
+        const values = [first.metric.value];
+        for (const entry of group.slice(1)) {
+          const value = valueInUnit(entry.metric, first.metric.unit);
+          if (value === null) {
+            const reason = `Duplicate of item ${first.index} (${id} at ${timestamp}) cannot be averaged: ` +
+              `unit ${describeUnit(entry.metric.unit)} does not convert to ${describeUnit(first.metric.unit)}`;
+            errors.push(
+              toParseError(entry.index, [{ path: 'unit', code: 'duplicate', reason, raw: entry.metric }], id)
+            );
+            continue;
+          }
+          values.push(value);
+          warnings.push({
+            index: entry.index,
+            id,
+            code: 'duplicate',
+            message: `Duplicate of item ${first.index} (${id} at ${timestamp}), averaged into it`
+          });
+        }
+        if (values.length === 1) {
+          kept.push(first);
+          break;
+        }
+
+        const average = values.reduce((sum, value) => sum + value, 0) / values.length;
+        kept.push({
+          index: first.index,
+          metric: {
+            ...first.metric,
+            value: average,
+            coercions: [
+              ...(first.metric.coercions ?? []),
+              { field: 'value', rule: 'averaged', raw: values }
+            ]
+          }
+        });
+        break;
+      }
+    }
+  }
+
+  return kept.sort((a, b) => a.index - b.index);
+}
+
+// A metric's value in another unit (same string, or converted), or null when it cannot be
+function valueInUnit(metric: MetricData, unit: string | undefined): number | null {
+  if (metric.unit === unit) {
+    return metric.value;
+  }
+  return metric.unit !== undefined && unit !== undefined ? units.convert(metric.value, metric.unit, unit) : null;
+}
+
+function describeUnit(unit: string | undefined): string {
+  return unit === undefined ? '(none)' : `"${unit}"`;
+}
+
+// Warn whenever an id's timestamp is earlier than one already seen for that id
+function checkOrder(entries: IndexedMetric[]): ParseWarning[] {
+  const latest = new Map<string, { time: number; index: number }>();
+  const warnings: ParseWarning[] = [];
+
+  for (const { index, metric } of entries) {
+    const time = Date.parse(metric.timestamp);
+    const previous = latest.get(metric.id);
+
+    if (previous && time < previous.time) {
+      warnings.push({
         index,
-        reason: 'Missing or invalid required field: name'
+        id: metric.id,
+        code: 'out_of_order',
+        message: `Timestamp ${metric.timestamp} is earlier than item ${previous.index} for ${metric.id}`
       });
-      return;
+    } else {
+      latest.set(metric.id, { time, index });
     }
+  }
 
-    // Validate required field: value (must be number or numeric string)
-    if (!isValidNumber(data.value)) {
-      errors.push({
-        index,
-        reason: 'Missing or invalid required field: value (must be a number)'
+  return warnings;
+}
+
+// ============================================
+// Anomalies
+// ============================================
+
+export type AnomalySeverity = 'info' | 'warning' | 'critical';
+
+// Why a value looks suspicious
+export interface Anomaly {
+  rule: 'range' | 'zscore' | 'mad';
+  severity: AnomalySeverity;
+  message: string;
+}
+
+// Plausible bounds for one metric name, optionally in a given unit
+export interface RangeRule {
+  min?: number;
+  max?: number;
+  unit?: string; // Values in other units of the same dimension are converted first
+  severity?: AnomalySeverity; // Defaults to 'warning'
+}
+
+/**
+ * Statistical outlier detection per metric name over the batch.
+ * zscore: |x - mean| / stddev, mad: 0.6745 * |x - median| / MAD
+ * (the modified z-score, robust to the outliers themselves)
+ */
+export interface OutlierRule {
+  method: 'zscore' | 'mad';
+  threshold?: number; // Defaults to 3 for zscore, 3.5 for mad
+  minSamples?: number; // Smaller groups are skipped, defaults to 5
+  severity?: AnomalySeverity; // Defaults to 'warning'
+}
+
+export interface AnomalyOptions {
+  ranges?: Record<string, RangeRule>; // Keyed by metric name
+  outliers?: OutlierRule;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Check a value against its range rule, converting units where possible
+function checkRange(metric: MetricData, rule: RangeRule): Anomaly | null {
+  let value = metric.value;
+  let unit = metric.unit ?? '';
+
+  if (rule.unit !== undefined && metric.unit !== undefined && metric.unit !== rule.unit) {
+    const converted = units.convert(metric.value, metric.unit, rule.unit);
+    if (converted === null) {
+      // Incomparable units: the rule cannot say anything about this value
+      return null;
+    }
+    value = converted;
+    unit = rule.unit;
+  }
+
+  const below = rule.min !== undefined && value < rule.min;
+  const above = rule.max !== undefined && value > rule.max;
+  if (!below && !above) {
+    return null;
+  }
+
+  const bound = below ? `below minimum ${rule.min}${unit}` : `above maximum ${rule.max}${unit}`;
+  return {
+    rule: 'range',
+    severity: rule.severity ?? 'warning',
+    message: `${metric.name} value ${value}${unit} is ${bound}`
+  };
+}
+
+// Score every value of one metric name; returns the anomaly (or null) per value
+function findOutliers(values: number[], rule: OutlierRule): (Anomaly | null)[] {
+  if (values.length < (rule.minSamples ?? 5)) {
+    return values.map(() => null);
+  }
+
+  let scores: number[];
+  if (rule.method === 'zscore') {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+    const deviation = Math.sqrt(variance);
+    scores = values.map(value => (deviation === 0 ? 0 : Math.abs(value - mean) / deviation));
+  } else {
+    const center = median(values);
+    const mad = median(values.map(value => Math.abs(value - center)));
+    scores = values.map(value => (mad === 0 ? 0 : (0.6745 * Math.abs(value - center)) / mad));
+  }
+
+  const threshold = rule.threshold ?? (rule.method === 'zscore' ? 3 : 3.5);
+  return scores.map(score =>
+    score > threshold
+      ? {
+          rule: rule.method,
+          severity: rule.severity ?? 'warning',
+          message: `Outlier: ${rule.method} score ${score.toFixed(2)} exceeds ${threshold}`
+        }
+      : null
+  );
+}
+
+/**
+ * Attach anomalies to suspicious metrics. Nothing is dropped: flagged
+ * metrics are copied with an `anomalies` list so dashboards can highlight them.
+ *
+ * Example:
+ * flagAnomalies(result.valid, {
+ *   ranges: { 'GPU Temperature': { min: 0, max: 120, unit: '°C', severity: 'critical' } },
+ *   outliers: { method: 'mad' }
+ * });
+ */
+export function flagAnomalies(metrics: MetricData[], options: AnomalyOptions): MetricData[] {
+  const found: Anomaly[][] = metrics.map(() => []);
+
+  metrics.forEach((metric, i) => {
+    const rule = options.ranges?.[metric.name];
+    const anomaly = rule ? checkRange(metric, rule) : null;
+    if (anomaly) {
+      found[i].push(anomaly);
+    }
+  });
+
+  if (options.outliers) {
+    // Group positions by metric name; only finite values take part
+    const groups = new Map<string, number[]>();
+    metrics.forEach((metric, i) => {
+      if (Number.isFinite(metric.value)) {
+        groups.set(metric.name, [...(groups.get(metric.name) ?? []), i]);
+      }
+    });
+
+    for (const positions of groups.values()) {
+      const outliers = findOutliers(positions.map(i => metrics[i].value), options.outliers);
+      outliers.forEach((anomaly, j) => {
+        if (anomaly) {
+          found[positions[j]].push(anomaly);
+        }
       });
-      return;
     }
+  }
 
-    // Validate required field: timestamp
-    if (!isValidTimestamp(data.timestamp)) {
-      errors.push({
-        index,
-        reason: 'Missing or invalid required field: timestamp (must be valid ISO 8601 format)'
+  return metrics.map((metric, i) =>
+    found[i].length === 0 ? metric : { ...metric, anomalies: [...(metric.anomalies ?? []), ...found[i]] }
+  );
+}
+
+// ============================================
+// Input Adapters (CSV / Prometheus)
+// ============================================
+
+/**
+ * One record read by an input adapter: either a decoded item (validated
+ * like any JSON item) or a description of text that could not be decoded
+ */
+export type InputRecord =
+  | { item: unknown; line?: number }
+  | { error: string; raw: string; line?: number };
+
+// Turns a text format into raw items for the shared validation path
+export interface InputAdapter {
+  name: string;
+  read(text: string): InputRecord[];
+}
+
+/**
+ * Parse text in any supported format: the adapter decodes it into items,
+ * which then go through the same validation (and policy) as parseMetrics
+ *
+ * Example:
+ * const result = parseMetricsWith(prometheusAdapter(), scrapeText, 'coerce');
+ */
+export function parseMetricsWith(
+  adapter: InputAdapter,
+  text: string,
+  policy?: ParsePolicyInput
+): ParseResult {
+  return parseRecords(adapter.read(text), resolvePolicy(policy));
+}
+
+// Metric fields that can be read from a CSV column
+type CsvField = 'id' | 'name' | 'value' | 'timestamp' | 'unit';
+
+export interface CsvAdapterOptions {
+  delimiter?: string; // Defaults to ','
+  // Header name for each field (defaults to the field name itself)
+  columns?: Partial<Record<CsvField, string>>;
+  /**
+   * Wide format (e.g. nvidia-smi): every listed column becomes its own
+   * metric named after the header. A "[unit]" suffix in the header
+   * ("memory.used [MiB]") is used as the unit, and the id is
+   * "<id column>:<metric name>".
+   */
+  valueColumns?: string[];
+  tagColumns?: string[]; // Columns copied into tags
+}
+
+// One CSV row with the line it starts on
+interface CsvRow {
+  cells: string[];
+  line: number;
+  raw: string;
+}
+
+// Split CSV text into rows (RFC 4180 quoting), remembering each row's first line
+function splitCsv(text: string, delimiter: string): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  let rowStart = 0;
+
+  const endRow = (end: number) => {
+    cells.push(cell);
+    const raw = text.slice(rowStart, end);
+    if (raw.trim() !== '') {
+      rows.push({ cells, line: rowLine, raw });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      endRow(i);
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      rowStart = i + 1;
+      rowLine = line + 1;
+    } else {
+      cell += char;
+    }
+
+    if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) {
+      line++;
+    }
+  }
+
+  endRow(text.length);
+  return rows;
+}
+
+// "memory.used [MiB]" → { name: "memory.used", unit: "MiB" }
+function splitHeaderUnit(header: string): { name: string; unit?: string } {
+  const match = /^(.*?)\s*\[([^\]]+)\]$/.exec(header);
+  return match ? { name: match[1], unit: match[2] } : { name: header };
+}
+
+/**
+ * CSV adapter: the first row is the header, cells are trimmed
+ */
+export function csvAdapter(options: CsvAdapterOptions = {}): InputAdapter {
+  const delimiter = options.delimiter ?? ',';
+  const columnFor = (field: CsvField) => options.columns?.[field] ?? field;
+
+  return {
+    name: 'csv',
+    read(text: string): InputRecord[] {
+      const [header, ...rows] = splitCsv(text, delimiter);
+      if (!header) {
+        return [];
+      }
+
+      const headers = header.cells.map(cell => cell.trim());
+      const records: InputRecord[] = [];
+
+      for (const row of rows) {
+        if (row.cells.length !== headers.length) {
+          records.push({
+            error: `Row has ${row.cells.length} columns, header has ${headers.length}`,
+            raw: row.raw,
+            line: row.line
+          });
+          continue;
+        }
+
+        const cells: Record<string, string> = {};
+        headers.forEach((name, column) => {
+          cells[name] = row.cells[column].trim();
+        });
+
+        const tags = options.tagColumns
+          ? Object.fromEntries(options.tagColumns.map(column => [column, cells[column]]))
+          : undefined;
+        const base = {
+          timestamp: cells[columnFor('timestamp')],
+          ...(tags ? { tags } : {})
+        };
+
+        if (!options.valueColumns) {
+          records.push({
+            item: {
+              ...base,
+              id: cells[columnFor('id')],
+              name: cells[columnFor('name')],
+              value: cells[columnFor('value')],
+              unit: cells[columnFor('unit')] || undefined
+            },
+            line: row.line
+          });
+          continue;
+        }
+
+        for (const column of options.valueColumns) {
+          const { name, unit } = splitHeaderUnit(column);
+          records.push({
+            item: {
+              ...base,
+              id: `${cells[columnFor('id')]}:${name}`,
+              name,
+              value: cells[column],
+              unit
+            },
+            line: row.line
+          });
+        }
+      }
+
+      return records;
+    }
+  };
+}
+
+export interface PrometheusAdapterOptions {
+  // Timestamp for samples without one (defaults to the time of reading)
+  defaultTimestamp?: string;
+  // Label whose value is used as the id (defaults to the full series, e.g. gpu_temp{gpu="0"})
+  idLabel?: string;
+  // Unit of sample timestamps: Prometheus uses milliseconds (default), OpenMetrics seconds
+  timestampUnit?: 'ms' | 's';
+}
+
+// Parse `{a="1",b="x\"y"}` starting at text[start] === '{'; returns labels and the index after '}'
+function parseLabels(
+  text: string,
+  start: number
+): { labels: Record<string, string>; end: number } | null {
+  const labels: Record<string, string> = {};
+  let i = start + 1;
+
+  while (i < text.length) {
+    while (text[i] === ' ' || text[i] === ',') i++;
+    if (text[i] === '}') {
+      return { labels, end: i + 1 };
+    }
+
+    const name = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(text.slice(i));
+    if (!name || text[i + name[0].length] !== '=' || text[i + name[0].length + 1] !== '"') {
+      return null;
+    }
+    i += name[0].length + 2;
+
+    let value = '';
+    while (i < text.length && text[i] !== '"') {
+      if (text[i] === '\\') {
+        const escaped = text[i + 1];
+        value += escaped === 'n' ? '\n' : escaped;
+        i += 2;
+      } else {
+        value += text[i++];
+      }
+    }
+    if (i >= text.length) {
+      return null;
+    }
+    labels[name[0]] = value;
+    i++;
+  }
+
+  return null;
+}
+
+// Prometheus sample values, including the special float spellings
+function parsePrometheusValue(text: string): number | string {
+  const special: Record<string, number> = {
+    '+Inf': Infinity,
+    Inf: Infinity,
+    '-Inf': -Infinity,
+    NaN: NaN
+  };
+  if (text in special) {
+    return special[text];
+  }
+  const value = Number(text);
+  return text !== '' && !isNaN(value) ? value : text;
+}
+
+// Series identity as Prometheus prints it: name{label="value",...}
+function seriesKey(name: string, labels: Record<string, string>): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${value}"`);
+  return pairs.length === 0 ? name : `${name}{${pairs.join(',')}}`;
+}
+
+// Epoch timestamps become ISO strings; anything else is left for the validator to reject.
+// Null for a fractional millisecond timestamp, which is almost certainly OpenMetrics seconds.
+function epochToIso(text: string, unit: 'ms' | 's'): string | null {
+  const epoch = Number(text);
+  if (unit === 'ms' && Number.isFinite(epoch) && !Number.isInteger(epoch)) {
+    return null;
+  }
+  const date = new Date(unit === 's' ? Math.round(epoch * 1000) : epoch);
+  return text !== '' && !isNaN(date.getTime()) ? date.toISOString() : text;
+}
+
+/**
+ * Prometheus text exposition format adapter.
+ *
+ * Labels become tags, the optional timestamp becomes an ISO string and
+ * `# UNIT` lines (OpenMetrics) set the unit for a metric family. Timestamps
+ * are milliseconds unless timestampUnit is 's' (as OpenMetrics writes them);
+ * a fractional millisecond timestamp is an error rather than a date in 1970.
+ * Other comments (# HELP, # TYPE) are skipped.
+ */
+export function prometheusAdapter(options: PrometheusAdapterOptions = {}): InputAdapter {
+  return {
+    name: 'prometheus',
+    read(text: string): InputRecord[] {
+      const defaultTimestamp = options.defaultTimestamp ?? new Date().toISOString();
+      const unitsByFamily = new Map<string, string>();
+      const records: InputRecord[] = [];
+
+      text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+        const line = lineIndex + 1;
+        const trimmed = rawLine.trim();
+
+        if (trimmed === '') {
+          return;
+        }
+        if (trimmed.startsWith('#')) {
+          const unit = /^#\s*UNIT\s+(\S+)\s+(\S+)/.exec(trimmed);
+          if (unit) {
+            unitsByFamily.set(unit[1], unit[2]);
+          }
+          return;
+        }
+
+        const name = /^[a-zA-Z_:][a-zA-Z0-9_:]*/.exec(trimmed);
+        if (!name) {
+          records.push({ error: 'Invalid Prometheus sample: missing metric name', raw: rawLine, line });
+          return;
+        }
+
+        let rest = trimmed.slice(name[0].length);
+        let labels: Record<string, string> = {};
+        if (rest.startsWith('{')) {
+          const parsed = parseLabels(rest, 0);
+          if (!parsed) {
+            records.push({ error: 'Invalid Prometheus sample: malformed labels', raw: rawLine, line });
+            return;
+          }
+          labels = parsed.labels;
+          rest = rest.slice(parsed.end);
+        }
+
+        const [valueText, timestampText, ...extra] = rest.trim().split(/\s+/);
+        if (valueText === undefined || valueText === '' || extra.length > 0) {
+          records.push({
+            error: 'Invalid Prometheus sample: expected "<value> [timestamp]"',
+            raw: rawLine,
+            line
+          });
+          return;
+        }
+
+        const timestamp = timestampText === undefined
+          ? defaultTimestamp
+          : epochToIso(timestampText, options.timestampUnit ?? 'ms');
+        if (timestamp === null) {
+          records.push({
+            error: `Invalid Prometheus sample: fractional millisecond timestamp "${timestampText}" ` +
+              '(OpenMetrics timestamps are seconds: use timestampUnit: \'s\')',
+            raw: rawLine,
+            line
+          });
+          return;
+        }
+
+        // Units are declared per family; samples like foo_bytes_total belong to foo_bytes
+        // (the longest matching family wins, so foo_bytes is not mistaken for foo)
+        const family = [...unitsByFamily.keys()]
+          .sort((a, b) => b.length - a.length)
+          .find(prefix => name[0] === prefix || name[0].startsWith(`${prefix}_`));
+
+        records.push({
+          item: {
+            id: options.idLabel !== undefined ? labels[options.idLabel] : seriesKey(name[0], labels),
+            name: name[0],
+            value: parsePrometheusValue(valueText),
+            timestamp,
+            unit: family !== undefined ? unitsByFamily.get(family) : undefined,
+            ...(Object.keys(labels).length > 0 ? { tags: labels } : {})
+          },
+          line
+        });
       });
-      return;
+
+      return records;
     }
+  };
+}
 
-    // All validations passed - create the MetricData object
-    const metricData: MetricData = {
-      id: data.id,
-      name: data.name,
-      value: toNumber(data.value),
-      timestamp: data.timestamp
-    };
+// ============================================
+// Parse Report
+// ============================================
+
+// Summary statistics for one metric name
+export interface MetricSummary {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  unit?: string; // Set when every value for the name shares one unit
+}
+
+// At-a-glance health of an ingest
+export interface ParseReport {
+  total: number;
+  valid: number;
+  invalid: number;
+  dropped: number; // Duplicates removed or merged by the duplicates policy
+  warnings: number;
+  errorsByReason: Record<string, number>;
+  errorsByCode: Partial<Record<ParseErrorCode, number>>;
+  fieldFailures: Record<string, { count: number; rate: number }>;
+  coercions: Partial<Record<CoercionRule, number>>;
+  anomalies: Partial<Record<AnomalySeverity, number>>;
+  metrics: Record<string, MetricSummary>;
+  timeRange: { start: string; end: string } | null;
+}
+
+// Count occurrences of a key in a record
+function increment<K extends string>(counts: Partial<Record<K, number>>, key: K): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * Summarize a ParseResult: error reasons, per-field failure rates,
+ * coercions applied, per-metric statistics and the time range covered
+ */
+export function buildParseReport(result: ParseResult): ParseReport {
+  const dropped = result.warnings.filter(w => w.code === 'duplicate').length;
+  const total = result.valid.length + result.errors.length + dropped;
 
-    // Add optional unit field if present
-    if (data.unit !== undefined && typeof data.unit === 'string') {
-      metricData.unit = data.unit;
+  const errorsByReason: Record<string, number> = {};
+  const errorsByCode: Partial<Record<ParseErrorCode, number>> = {};
+  const fieldCounts: Record<string, number> = {};
+
+  for (const error of result.errors) {
+    const fields = new Set<string>();
+    for (const issue of error.issues) {
+      increment(errorsByReason, issue.reason);
+      increment(errorsByCode, issue.code);
+      fields.add(issue.path === '' ? '(item)' : issue.path);
     }
+    // A field counts once per item, however many issues it has
+    fields.forEach(field => increment(fieldCounts, field));
+  }
 
-    valid.push(metricData);
-  });
+  const fieldFailures: ParseReport['fieldFailures'] = {};
+  for (const [field, count] of Object.entries(fieldCounts)) {
+    fieldFailures[field] = { count, rate: total === 0 ? 0 : count / total };
+  }
+
+  const coercions: Partial<Record<CoercionRule, number>> = {};
+  const anomalies: Partial<Record<AnomalySeverity, number>> = {};
+  const metrics: Record<string, MetricSummary & { units: Set<string | undefined> }> = {};
+  let start: { time: number; timestamp: string } | null = null;
+  let end: { time: number; timestamp: string } | null = null;
+
+  for (const metric of result.valid) {
+    metric.coercions?.forEach(coercion => increment(coercions, coercion.rule));
+    metric.anomalies?.forEach(anomaly => increment(anomalies, anomaly.severity));
+
+    const summary = metrics[metric.name];
+    if (summary) {
+      summary.count++;
+      summary.min = Math.min(summary.min, metric.value);
+      summary.max = Math.max(summary.max, metric.value);
+      summary.mean += (metric.value - summary.mean) / summary.count;
+      summary.units.add(metric.unit);
+    } else {
+      metrics[metric.name] = {
+        count: 1,
+        min: metric.value,
+        max: metric.value,
+        mean: metric.value,
+        units: new Set([metric.unit])
+      };
+    }
+
+    const time = Date.parse(metric.timestamp);
+    if (start === null || time < start.time) {
+      start = { time, timestamp: metric.timestamp };
+    }
+    if (end === null || time > end.time) {
+      end = { time, timestamp: metric.timestamp };
+    }
+  }
+
+  const metricSummaries: Record<string, MetricSummary> = {};
+  for (const [name, { units: seen, ...summary }] of Object.entries(metrics)) {
+    const [unit] = seen;
+    metricSummaries[name] = seen.size === 1 && unit !== undefined ? { ...summary, unit } : summary;
+  }
+
+  return {
+    total,
+    valid: result.valid.length,
+    invalid: result.errors.length,
+    dropped,
+    warnings: result.warnings.length,
+    errorsByReason,
+    errorsByCode,
+    fieldFailures,
+    coercions,
+    anomalies,
+    metrics: metricSummaries,
+    timeRange: start && end ? { start: start.timestamp, end: end.timestamp } : null
+  };
+}
+
+// Lay out rows as a fixed-width text table
+function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map(row => row[column].length))
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  const divider = widths.map(width => '-'.repeat(width)).join('  ');
+
+  return [formatRow(headers), divider, ...rows.map(formatRow)].join('\n');
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+/**
+ * Render a report as pretty-printed JSON or as plain-text tables for CLI output
+ */
+export function renderParseReport(report: ParseReport, format: 'json' | 'text' = 'text'): string {
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2);
+  }
+
+  const sections: string[] = [
+    formatTable(
+      ['Total', 'Valid', 'Invalid', 'Dropped', 'Warnings'],
+      [[report.total, report.valid, report.invalid, report.dropped, report.warnings].map(String)]
+    )
+  ];
 
-  return { valid, errors };
+  if (report.timeRange) {
+    sections.push(`Time range: ${report.timeRange.start} → ${report.timeRange.end}`);
+  }
+
+  const reasons = Object.entries(report.errorsByReason).sort((a, b) => b[1] - a[1]);
+  if (reasons.length > 0) {
+    sections.push(
+      formatTable(['Error reason', 'Count'], reasons.map(([reason, count]) => [reason, String(count)]))
+    );
+  }
+
+  const fields = Object.entries(report.fieldFailures).sort((a, b) => b[1].count - a[1].count);
+  if (fields.length > 0) {
+    sections.push(
+      formatTable(
+        ['Field', 'Failures', 'Rate'],
+        fields.map(([field, { count, rate }]) => [field, String(count), `${(rate * 100).toFixed(1)}%`])
+      )
+    );
+  }
+
+  const coercions = Object.entries(report.coercions);
+  if (coercions.length > 0) {
+    sections.push(
+      formatTable(['Coercion', 'Count'], coercions.map(([rule, count]) => [rule, String(count)]))
+    );
+  }
+
+  const anomalies = Object.entries(report.anomalies);
+  if (anomalies.length > 0) {
+    sections.push(
+      formatTable(['Anomaly severity', 'Count'], anomalies.map(([severity, count]) => [severity, String(count)]))
+    );
+  }
+
+  const metrics = Object.entries(report.metrics);
+  if (metrics.length > 0) {
+    sections.push(
+      formatTable(
+        ['Metric', 'Count', 'Min', 'Max', 'Mean', 'Unit'],
+        metrics.map(([name, summary]) => [
+          name,
+          String(summary.count),
+          formatNumber(summary.min),
+          formatNumber(summary.max),
+          formatNumber(summary.mean),
+          summary.unit ?? ''
+        ])
+      )
+    );
+  }
+
+  return sections.join('\n\n');
+}
+
+// ============================================
+// Streaming Input (NDJSON / JSON array)
+// ============================================
+
+// A record yielded by parseMetricStream: either a validated metric or an error
+export type MetricStreamRecord =
+  | { type: 'metric'; index: number; offset: number; line: number; metric: MetricData }
+  | { type: 'error'; error: ParseError };
+
+// Raw text of one item together with where it started in the stream
+interface RawRecord {
+  text: string;
+  offset: number; // Byte offset (UTF-8) of the first character
+  line: number; // 1-based line number of the first character
+}
+
+// Splits incoming text into raw records, one chunk at a time
+interface RecordSplitter {
+  push(text: string): RawRecord[];
+  end(): RawRecord[];
+}
+
+// Error for input that could not be read as JSON at all
+function formatError(index: number, reason: string, raw: string): ParseError {
+  return toParseError(index, [{ path: '', code: 'bad_format', reason, raw }]);
+}
+
+// Number of UTF-8 bytes used by a UTF-16 code unit (surrogate pairs count 4 on the high half)
+function utf8Width(code: number): number {
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code >= 0xd800 && code <= 0xdbff) return 4;
+  if (code >= 0xdc00 && code <= 0xdfff) return 0;
+  return 3;
+}
+
+function isWhitespace(char: string): boolean {
+  return char === ' ' || char === '\n' || char === '\r' || char === '\t';
+}
+
+// NDJSON: one JSON value per line, blank lines are skipped
+function createNdjsonSplitter(): RecordSplitter {
+  let pending = '';
+  let offset = 0;
+  let line = 1;
+
+  const takeLine = (text: string, records: RawRecord[], hasNewline: boolean) => {
+    const content = text.endsWith('\r') ? text.slice(0, -1) : text;
+    if (content.trim() !== '') {
+      records.push({ text: content, offset, line });
+    }
+    offset += Buffer.byteLength(text) + (hasNewline ? 1 : 0);
+    line++;
+  };
+
+  return {
+    push(text) {
+      const records: RawRecord[] = [];
+      pending += text;
+
+      let newline = pending.indexOf('\n');
+      while (newline !== -1) {
+        takeLine(pending.slice(0, newline), records, true);
+        pending = pending.slice(newline + 1);
+        newline = pending.indexOf('\n');
+      }
+
+      return records;
+    },
+    end() {
+      const records: RawRecord[] = [];
+      if (pending !== '') {
+        takeLine(pending, records, false);
+        pending = '';
+      }
+      return records;
+    }
+  };
+}
+
+// Top-level JSON array: elements are split on commas outside of strings and nested values
+function createArraySplitter(): RecordSplitter & { errors: ParseError[] } {
+  let started = false;
+  let closed = false;
+  let trailing = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let current = '';
+  let hasCurrent = false;
+  let start = { offset: 0, line: 1 };
+  let lastComma: { offset: number; line: number } | null = null; // Separator right before the current element
+  let offset = 0;
+  let line = 1;
+  const splitter = {
+    errors: [] as ParseError[],
+    push(text: string): RawRecord[] {
+      const records: RawRecord[] = [];
+      let segmentStart = 0;
+
+      const flush = (end: number) => {
+        if (hasCurrent) {
+          current += text.slice(segmentStart, end);
+          records.push({ text: current, ...start });
+        }
+        current = '';
+        hasCurrent = false;
+      };
+
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (!hasCurrent) {
+          segmentStart = i;
+        }
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === '\\') {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+          }
+        } else if (!started || closed) {
+          if (char === '[' && !started) {
+            started = true;
+          } else if (!isWhitespace(char) && !trailing) {
+            // Anything after the closing bracket cannot be recovered into a record
+            trailing = true;
+            splitter.errors.push({
+              ...formatError(-1, `Unexpected character "${char}" after the top-level array`, char),
+              offset,
+              line
+            });
+          }
+        } else if (depth === 0 && (char === ',' || char === ']')) {
+          if (!hasCurrent && char === ',') {
+            splitter.errors.push({ ...formatError(-1, 'Empty array element', char), offset, line });
+          } else if (!hasCurrent && lastComma !== null) {
+            splitter.errors.push({ ...formatError(-1, 'Trailing comma before "]"', ','), ...lastComma });
+          }
+          flush(i);
+          lastComma = char === ',' ? { offset, line } : null;
+          if (char === ']') {
+            closed = true;
+          }
+        } else if (!hasCurrent && isWhitespace(char)) {
+          // Skip whitespace between elements
+        } else {
+          if (!hasCurrent) {
+            hasCurrent = true;
+            start = { offset, line };
+          }
+          if (char === '"') {
+            inString = true;
+          } else if (char === '{' || char === '[') {
+            depth++;
+          } else if (char === '}' || char === ']') {
+            depth--;
+          }
+        }
+
+        offset += utf8Width(text.charCodeAt(i));
+        if (char === '\n') {
+          line++;
+        }
+      }
+
+      if (hasCurrent) {
+        current += text.slice(segmentStart);
+      }
+
+      return records;
+    },
+    end(): RawRecord[] {
+      const records: RawRecord[] = [];
+      if (hasCurrent) {
+        // Let JSON.parse report the truncated element
+        records.push({ text: current, ...start });
+        current = '';
+        hasCurrent = false;
+      } else if (started && !closed) {
+        splitter.errors.push({
+          ...formatError(-1, 'Unexpected end of input: top-level array is not closed', ''),
+          offset,
+          line
+        });
+      }
+      return records;
+    }
+  };
+
+  return splitter;
+}
+
+/**
+ * Parse metrics incrementally from a stream of text chunks.
+ *
+ * Accepts NDJSON (one object per line) or a single top-level JSON array,
+ * detected from the first non-whitespace character. Each item is validated
+ * as soon as it is complete, so memory use is bounded by the largest item
+ * rather than the whole payload. A malformed item produces an error record
+ * and parsing continues with the next one. Items are validated with the
+ * same policy rules as parseMetrics.
+ *
+ * Example:
+ * for await (const record of parseMetricStream(fs.createReadStream('dump.ndjson'))) {
+ *   if (record.type === 'metric') chart.add(record.metric);
+ * }
+ */
+export async function* parseMetricStream(
+  chunks: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+  policy?: ParsePolicyInput
+): AsyncGenerator<MetricStreamRecord> {
+  const resolved = resolvePolicy(policy);
+  const decoder = new TextDecoder('utf-8');
+  let splitter: (RecordSplitter & { errors?: ParseError[] }) | null = null;
+  let leading = '';
+  let index = 0;
+
+  function* emit(records: RawRecord[]): Generator<MetricStreamRecord> {
+    for (const record of records) {
+      const itemIndex = index++;
+      const position = { offset: record.offset, line: record.line };
+      let item: unknown;
+      try {
+        item = JSON.parse(record.text);
+      } catch (error) {
+        yield {
+          type: 'error',
+          error: {
+            ...formatError(
+              itemIndex,
+              `Malformed JSON: ${error instanceof Error ? error.message : String(error)}`,
+              record.text
+            ),
+            ...position
+          }
+        };
+        continue;
+      }
+
+      const result = parseItem(item, itemIndex, resolved);
+      if ('error' in result) {
+        yield { type: 'error', error: { ...result.error, ...position } };
+      } else {
+        yield { type: 'metric', index: itemIndex, ...position, metric: result.metric };
+      }
+    }
+
+    // Structural errors that do not belong to any item (reported with index -1)
+    if (splitter?.errors) {
+      for (const error of splitter.errors.splice(0)) {
+        yield { type: 'error', error };
+      }
+    }
+  }
+
+  for await (const chunk of chunks) {
+    const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    if (splitter === null) {
+      // Wait for the first non-whitespace character to pick the format
+      leading += text;
+      const first = leading.trimStart()[0];
+      if (first === undefined) {
+        continue;
+      }
+      splitter = first === '[' ? createArraySplitter() : createNdjsonSplitter();
+      yield* emit(splitter.push(leading));
+      leading = '';
+    } else {
+      yield* emit(splitter.push(text));
+    }
+  }
+
+  const tail = decoder.decode();
+  if (splitter === null) {
+    if ((leading + tail).trim() === '') {
+      return;
+    }
+    splitter = createNdjsonSplitter();
+    yield* emit(splitter.push(leading));
+  }
+  yield* emit(splitter.push(tail));
+  yield* emit(splitter.end());
 }
 
 // Test data
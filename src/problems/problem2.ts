@@ -28,113 +28,319 @@
  * - Log/report unknown components
  */
 
-// Define all possible component types
-type ComponentType = 'header' | 'chart' | 'grid' | 'list' | 'metric';
+import { evaluateExpression, parseExpression, renderTemplateValue } from './expressions';
 
-// Base interface that all components extend
-interface BaseComponent {
-  type: ComponentType;
+// Built-in component types
+export type ComponentType = 'header' | 'chart' | 'grid' | 'list' | 'metric';
+
+// Actions a component can trigger (performed by the host app, see ActionDispatcher)
+export type ComponentAction =
+  | { type: 'navigate'; screen: string; params?: Record<string, string> }
+  | { type: 'openUrl'; url: string } // http(s) only
+  | { type: 'refresh'; target?: string } // Component id; omitted to refresh the whole screen
+  | { type: 'callApi'; endpoint: string; method: ApiActionMethod; body?: unknown }
+  | { type: 'dispatch'; event: string; payload?: unknown }; // Custom host-defined event
+
+export type ActionType = ComponentAction['type'];
+export type ApiActionMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+// User interactions that can trigger an action
+export type ActionTrigger = 'onTap' | 'onLongPress';
+export type ActionBindings = Partial<Record<ActionTrigger, ComponentAction>>;
+
+// Live data a chart or metric can be bound to instead of inlining its values (resolved by dataBinding.ts)
+export type DataSource =
+  | { kind: 'experimentMetric'; experimentId: string; metric: string } // Summary value of the experiment
+  | { kind: 'metricHistory'; experimentId: string; metric: string; pipeline?: PipelineStep[] }; // Logged values
+
+// Serializable TransformPipeline steps for metricHistory sources (see transformers in problem5.ts)
+export type PipelineStep =
+  | { transform: 'filterByTimeRange'; start: string; end: string } // ISO dates
+  | { transform: 'sampleMetrics'; maxPoints: number }
+  | { transform: 'movingAverage'; windowSize: number };
+
+// Base interface that all components extend (custom components pass their own type name)
+export interface BaseComponent<TType extends string = ComponentType> {
+  type: TType;
   id?: string; // Optional unique identifier
+  actions?: ActionBindings; // Validated by the renderer, whatever the component type
 }
 
+// Any component shape, built-in or registered by a consumer
+export type AnyComponent = BaseComponent<string>;
+
 // Header component: Displays text with styling
-interface HeaderComponent extends BaseComponent {
+export interface HeaderComponent extends BaseComponent {
   type: 'header';
   text: string;
   style?: 'small' | 'medium' | 'large'; // Optional size
 }
 
 // Chart component: Displays data visualization
-interface ChartComponent extends BaseComponent {
+export interface ChartComponent extends BaseComponent {
   type: 'chart';
   data: number[]; // Chart data points
   chartType: 'line' | 'bar' | 'pie'; // Type of chart
   title?: string; // Optional chart title
+  alt?: string; // Optional text alternative for screen readers
+  source?: DataSource; // Where data was resolved from, if bound
 }
 
 // Grid component: Layout component with columns
-interface GridComponent extends BaseComponent {
+// (TCustom: component types registered on the renderer, which may appear as children)
+export interface GridComponent<TCustom extends AnyComponent = never> extends BaseComponent {
   type: 'grid';
   columns: number; // Number of columns (e.g., 2, 3)
-  items: RenderedComponent[]; // Nested components
+  items: RenderResult<ValidComponent<TCustom>>[]; // Nested components (placeholders only with keepInvalidChildren)
 }
 
 // List component: Vertical list of items
-interface ListComponent extends BaseComponent {
+export interface ListComponent<TCustom extends AnyComponent = never> extends BaseComponent {
   type: 'list';
-  items: RenderedComponent[]; // Nested components
+  items: RenderResult<ValidComponent<TCustom>>[]; // Nested components (placeholders only with keepInvalidChildren)
   orientation?: 'vertical' | 'horizontal'; // Optional layout
 }
 
 // Metric component: Displays a single metric value
-interface MetricComponent extends BaseComponent {
+export interface MetricComponent extends BaseComponent {
   type: 'metric';
   label: string; // Metric name
   value: number | string; // Metric value
   unit?: string; // Optional unit (e.g., "GB", "%")
+  source?: DataSource; // Where value was resolved from, if bound
 }
 
-// Union type: Any valid component
-type ValidComponent =
+// Union type: Any valid component (built-ins plus any registered custom types)
+export type ValidComponent<TCustom extends AnyComponent = never> =
   | HeaderComponent
   | ChartComponent
-  | GridComponent
-  | ListComponent
-  | MetricComponent;
+  | GridComponent<TCustom>
+  | ListComponent<TCustom>
+  | MetricComponent
+  | TCustom;
 
 // Rendered component: Result after processing
-interface RenderedComponent {
-  component: ValidComponent;
+export interface RenderedComponent<TComponent extends AnyComponent = ValidComponent> {
+  component: TComponent;
   isValid: true;
+  path: string; // JSON path in the screen config, e.g. "components[3].items[1]"
 }
 
 // Unknown component: When type is not recognized
-interface UnknownComponent {
+export interface UnknownComponent {
   type: string; // The unknown type name
   rawData: any; // Original data
   isValid: false;
   error: string;
+  path: string; // JSON path in the screen config, e.g. "components[3].items[1]"
+}
+
+// Unresolved component: data-bound, but its source is still loading or failed
+export interface UnresolvedComponent {
+  type: string;
+  rawData: any;
+  isValid: false;
+  status: 'loading' | 'error';
+  source: DataSource;
+  error?: string; // Set when status is 'error'
+  path: string;
 }
 
-// Result type: Can be valid or unknown
-type RenderResult = RenderedComponent | UnknownComponent;
+// Result type: Can be valid, unknown or waiting on its data source
+export type RenderResult<TComponent extends AnyComponent = ValidComponent> =
+  | RenderedComponent<TComponent>
+  | UnknownComponent
+  | UnresolvedComponent;
 
 // Screen configuration from the server
-interface ScreenConfig {
+export interface ScreenConfig {
   screen: string; // Screen name/ID
   components: unknown[]; // Array of component configs (unknown until validated)
+  fragments?: Record<string, unknown>; // Named reusable blocks: a component config or an array of them
+  fallbacks?: Record<string, Fallback>; // By capability ("chart.pie" or "gauge"), for clients lacking it
+}
+
+/**
+ * Reference to a fragment, expanded in place by the renderer. Inside the
+ * fragment, props are available to templates and visibleIf as "props":
+ *
+ * fragments: { gpuSummary: [{ type: 'header', text: 'GPU {{props.gpu}}', template: true }, ...] }
+ * components: [{ type: 'ref', ref: 'gpuSummary', props: { gpu: 0 } }]
+ */
+export interface FragmentRef {
+  type: 'ref';
+  ref: string;
+  props?: Record<string, unknown>;
+  template?: Template; // Props that are templates themselves
+}
+
+/**
+ * Opt-in for {{templates}} in a config's top-level string fields: true for
+ * all of them, or the names of the templated fields. Fields without it are
+ * literal, so existing text containing "{{" renders unchanged.
+ *
+ * { type: 'header', text: 'Run {{run.name}}', template: true }
+ * { type: 'metric', label: 'Load {{x}}', value: '{{run.load}}', template: ['value'] } // label stays literal
+ *
+ * A field that is exactly one {{expression}} takes its value (a number stays a number).
+ */
+export type Template = true | string[];
+
+/**
+ * What the requesting client can display. A capability is a component type,
+ * or a type and variant ("chart.pie", "list.horizontal"): charts vary by
+ * chartType, lists by orientation and headers by style. A type listed as true
+ * supports all its variants; unlisted types are unsupported.
+ *
+ * { platform: 'android', appVersion: '3.2.0',
+ *   components: { header: true, metric: true, grid: true, chart: ['line', 'bar'], list: ['vertical'] } }
+ *
+ * The client is available to visibleIf and templates as "client".
+ */
+export interface ClientCapabilities {
+  platform: string; // e.g. "ios", "android", "web"
+  appVersion: string;
+  components: Record<string, true | string[]>;
+}
+
+/**
+ * What to render instead of a capability the client lacks. Declared on the
+ * component ("fallback") or for the whole screen (ScreenConfig.fallbacks);
+ * the component's own fallback wins. Without one, the component is an error.
+ */
+export type Fallback =
+  | 'hidden' // Leave the component out
+  | { variant: string } // Same type, another variant (e.g. pie → bar)
+  | { replace: unknown }; // Another component config rendered in its place
+
+// A fallback applied during render
+export interface Downgrade {
+  path: string;
+  from: string; // Capability the client lacks, e.g. "chart.pie"
+  to: string | null; // Capability rendered instead (null: hidden)
 }
 
 // Final render output
-interface RenderOutput {
+export interface RenderOutput<TComponent extends AnyComponent = ValidComponent> {
   screen: string;
-  components: RenderResult[]; // Mix of valid and unknown components
-  errors: string[]; // List of all errors encountered
+  components: RenderResult<TComponent>[]; // Mix of valid and unknown components (hidden ones left out)
+  errors: string[]; // All errors encountered, nested ones included, each prefixed with its path
+  downgrades?: Downgrade[]; // Fallbacks applied, in document order (only when rendered for a client)
+}
+
+// Resolved state of a data source, keyed by sourceKey(source) in RenderOptions.data
+export type SourceState =
+  | { status: 'loading' }
+  | { status: 'ready'; value: number | number[] }
+  | { status: 'error'; error: string };
+
+// Options for a single render call
+export interface RenderOptions {
+  // Keep invalid grid/list children as placeholders (default: drop them).
+  // Loading and failed data-bound children are always kept.
+  keepInvalidChildren?: boolean;
+  maxDepth?: number; // Deepest nesting level rendered; top-level components are depth 1 (default: 10)
+  data?: ReadonlyMap<string, SourceState>; // Resolved data sources (missing sources render as loading)
+  context?: Record<string, unknown>; // Values for visibleIf conditions and {{templates}} (see Template)
+  client?: ClientCapabilities; // Render for this client, applying fallbacks (default: everything supported)
+}
+
+const DEFAULT_MAX_DEPTH = 10;
+
+/**
+ * Passed to every validator. Container components render their children
+ * through it so nested errors are reported with their path.
+ */
+export interface RenderContext {
+  path: string; // Path of the component being validated
+  depth: number;
+  renderChildren(items: unknown[], key?: string): RenderResult<AnyComponent>[]; // Hidden children left out
 }
 
 // Component validator function type
-type ComponentValidator = (data: any) => ValidComponent | null;
+export type ComponentValidator<TComponent extends AnyComponent = ValidComponent> =
+  (data: any, context: RenderContext) => TComponent | null;
+
+// Per-render state shared by every component in one render call
+interface RenderState {
+  options: Required<Omit<RenderOptions, 'client'>>;
+  errors: string[];
+  fragments: Map<string, unknown[]>;
+  fragmentStack: string[]; // Fragments being expanded, outermost first (for cycle detection)
+  context: Record<string, unknown>; // Template context, with "props" inside a fragment
+  client: ClientCapabilities | null;
+  fallbacks: Map<string, unknown>; // ScreenConfig.fallbacks, by capability
+  fallbackStack: string[]; // Capabilities being replaced, outermost first (for cycle detection)
+  downgrades: Downgrade[];
+}
+
+// Component registry: Maps component type names to validators
+type ComponentRegistry = Map<string, ComponentValidator<AnyComponent>>;
 
-// Component registry: Maps component types to validators
-type ComponentRegistry = Map<ComponentType, ComponentValidator>;
+/**
+ * A third-party component type: its type name and validator.
+ *
+ * Example:
+ * interface GaugeComponent extends BaseComponent<'gauge'> { value: number; max: number }
+ * const gauge: ComponentPlugin<GaugeComponent> = {
+ *   type: 'gauge',
+ *   validate: data => (typeof data.value === 'number' ? { type: 'gauge', value: data.value, max: 100 } : null)
+ * };
+ */
+export interface ComponentPlugin<TComponent extends AnyComponent> {
+  type: TComponent['type'];
+  validate: ComponentValidator<TComponent>;
+}
 
 // Component renderer: Main class
-export class ComponentRenderer {
+// (TCustom: the custom component types registered so far, tracked by registerComponent/use)
+export class ComponentRenderer<TCustom extends AnyComponent = never> {
   private registry: ComponentRegistry;
 
   constructor() {
     // Initialize the registry with a Map
-    this.registry = new Map<ComponentType, ComponentValidator>();
+    this.registry = new Map<string, ComponentValidator<AnyComponent>>();
 
     // Register default validators
     this.registerDefaultValidators();
   }
 
   /**
-   * Register a component type with its validator
+   * Register a component type with its validator.
+   * Returns the same renderer, typed to include the new component in render output:
+   *
+   * const renderer = new ComponentRenderer().registerComponent('gauge', validateGauge);
+   * renderer.render(config); // RenderOutput<ValidComponent<GaugeComponent>>
    */
-  registerComponent(type: ComponentType, validator: ComponentValidator): void {
+  registerComponent<TType extends string, TComponent extends BaseComponent<TType>>(
+    type: TType,
+    validator: ComponentValidator<TComponent>
+  ): ComponentRenderer<TCustom | TComponent> {
     this.registry.set(type, validator);
+    return this as ComponentRenderer<TCustom | TComponent>;
+  }
+
+  /**
+   * Register a component plugin (see ComponentPlugin)
+   */
+  use<TComponent extends AnyComponent>(
+    plugin: ComponentPlugin<TComponent>
+  ): ComponentRenderer<TCustom | TComponent> {
+    return this.registerComponent<string, TComponent>(plugin.type, plugin.validate);
+  }
+
+  /**
+   * Whether a component type has a registered validator
+   */
+  hasComponent(type: string): boolean {
+    return this.registry.has(type);
+  }
+
+  /**
+   * All registered component type names (built-in and custom)
+   */
+  getComponentTypes(): string[] {
+    return Array.from(this.registry.keys());
   }
 
   /**
@@ -142,7 +348,7 @@ export class ComponentRenderer {
    */
   private registerDefaultValidators(): void {
     // Header validator
-    this.registerComponent('header', (data: any): ValidComponent | null => {
+    this.registerComponent('header', (data: any): HeaderComponent | null => {
       if (typeof data.text !== 'string' || data.text.trim() === '') {
         return null;
       }
@@ -156,7 +362,7 @@ export class ComponentRenderer {
     });
 
     // Chart validator
-    this.registerComponent('chart', (data: any): ValidComponent | null => {
+    this.registerComponent('chart', (data: any): ChartComponent | null => {
       if (!Array.isArray(data.data) || data.data.length === 0) {
         return null;
       }
@@ -171,12 +377,13 @@ export class ComponentRenderer {
         data: data.data,
         chartType: data.chartType,
         title: data.title,
+        alt: typeof data.alt === 'string' ? data.alt : undefined,
         id: data.id
       };
     });
 
     // Metric validator
-    this.registerComponent('metric', (data: any): ValidComponent | null => {
+    this.registerComponent('metric', (data: any): MetricComponent | null => {
       if (typeof data.label !== 'string' || data.label.trim() === '') {
         return null;
       }
@@ -195,7 +402,7 @@ export class ComponentRenderer {
     });
 
     // Grid validator (handles nested components)
-    this.registerComponent('grid', (data: any): ValidComponent | null => {
+    this.registerComponent('grid', (data: any, context): GridComponent<TCustom> | null => {
       if (typeof data.columns !== 'number' || data.columns < 1) {
         return null;
       }
@@ -205,9 +412,7 @@ export class ComponentRenderer {
       }
 
       // Recursively render nested components
-      const renderedItems = data.items
-        .map((item: any) => this.renderComponent(item))
-        .filter((result: RenderResult): result is RenderedComponent => result.isValid);
+      const renderedItems = context.renderChildren(data.items) as RenderResult<ValidComponent<TCustom>>[];
 
       return {
         type: 'grid',
@@ -218,15 +423,13 @@ export class ComponentRenderer {
     });
 
     // List validator (handles nested components)
-    this.registerComponent('list', (data: any): ValidComponent | null => {
+    this.registerComponent('list', (data: any, context): ListComponent<TCustom> | null => {
       if (!Array.isArray(data.items)) {
         return null;
       }
 
       // Recursively render nested components
-      const renderedItems = data.items
-        .map((item: any) => this.renderComponent(item))
-        .filter((result: RenderResult): result is RenderedComponent => result.isValid);
+      const renderedItems = context.renderChildren(data.items) as RenderResult<ValidComponent<TCustom>>[];
 
       return {
         type: 'list',
@@ -238,16 +441,109 @@ export class ComponentRenderer {
   }
 
   /**
-   * Render a single component
+   * Render a list of component configs, expanding fragment refs in place
+   */
+  private renderList(
+    items: unknown[],
+    pathOf: (index: number) => string,
+    depth: number,
+    state: RenderState
+  ): RenderResult<ValidComponent<TCustom>>[] {
+    const results: RenderResult<ValidComponent<TCustom>>[] = [];
+    items.forEach((item, index) => {
+      if (typeof item === 'object' && item !== null && (item as { type?: unknown }).type === 'ref') {
+        results.push(...this.expandRef(item, pathOf(index), depth, state));
+        return;
+      }
+      const result = this.renderComponent(item, pathOf(index), depth, state);
+      if (result !== null) results.push(result);
+    });
+    return results;
+  }
+
+  /**
+   * Expand a fragment ref into the fragment's rendered components
+   * (paths inside it look like "components[2].ref(gpuSummary)[0]")
+   */
+  private expandRef(
+    data: any,
+    path: string,
+    depth: number,
+    state: RenderState
+  ): RenderResult<ValidComponent<TCustom>>[] {
+    const fail = (error: string): UnknownComponent[] => {
+      state.errors.push(`${path}: ${error}`);
+      return [{ type: 'ref', rawData: data, isValid: false, error, path }];
+    };
+
+    if (typeof data.ref !== 'string') {
+      return fail('Fragment ref must have a "ref" field');
+    }
+    const fragment = state.fragments.get(data.ref);
+    if (!fragment) {
+      return fail(`Unknown fragment "${data.ref}"`);
+    }
+    if (state.fragmentStack.includes(data.ref)) {
+      return fail(`Fragment cycle: ${[...state.fragmentStack, data.ref].join(' → ')}`);
+    }
+    const props = data.props ?? {};
+    if (typeof props !== 'object' || props === null || Array.isArray(props)) {
+      return fail('Fragment ref "props" must be an object');
+    }
+
+    // Props may themselves be templates ("template" on the ref), evaluated where the ref is used
+    const templatedProps = interpolateFields(props, data.template, state.context);
+    if (!templatedProps.valid) {
+      return fail(templatedProps.error);
+    }
+
+    const outerContext = state.context;
+    state.fragmentStack.push(data.ref);
+    state.context = { ...outerContext, props: templatedProps.data };
+    try {
+      const pathOf = (index: number) => `${path}.ref(${data.ref})[${index}]`;
+      return this.renderList(fragment, pathOf, depth, state);
+    } finally {
+      state.fragmentStack.pop();
+      state.context = outerContext;
+    }
+  }
+
+  /**
+   * Render a single component, recording its error (if any) with its path.
+   * Returns null when the component is hidden by its visibleIf condition.
+   */
+  private renderComponent(
+    data: any,
+    path: string,
+    depth: number,
+    state: RenderState
+  ): RenderResult<ValidComponent<TCustom>> | null {
+    const result = this.validateComponent(data, path, depth, state);
+    // Loading components have no error; they are not failures
+    if (result !== null && !result.isValid && result.error !== undefined) {
+      state.errors.push(`${path}: ${result.error}`);
+    }
+    return result;
+  }
+
+  /**
+   * Validate a single component against its registered validator
    */
-  private renderComponent(data: any): RenderResult {
+  private validateComponent(
+    data: any,
+    path: string,
+    depth: number,
+    state: RenderState
+  ): RenderResult<ValidComponent<TCustom>> | null {
     // Type guard: ensure data is an object
     if (typeof data !== 'object' || data === null) {
       return {
         type: 'invalid',
         rawData: data,
         isValid: false,
-        error: 'Component data must be an object'
+        error: 'Component data must be an object',
+        path
       };
     }
 
@@ -257,45 +553,168 @@ export class ComponentRenderer {
         type: 'unknown',
         rawData: data,
         isValid: false,
-        error: 'Component must have a "type" field'
+        error: 'Component must have a "type" field',
+        path
       };
     }
 
+    // Guard against pathological nesting
+    if (depth > state.options.maxDepth) {
+      return {
+        type: data.type,
+        rawData: data,
+        isValid: false,
+        error: `Maximum nesting depth (${state.options.maxDepth}) exceeded`,
+        path
+      };
+    }
+
+    // Conditional visibility: hidden components are left out of the output
+    if (data.visibleIf !== undefined) {
+      const condition = typeof data.visibleIf === 'string'
+        ? parseExpression(data.visibleIf)
+        : { valid: false as const, error: 'must be a string' };
+      if (!condition.valid) {
+        const error = `Invalid visibleIf: ${condition.error}`;
+        return { type: data.type, rawData: data, isValid: false, error, path };
+      }
+      if (!evaluateExpression(condition.expression, state.context)) {
+        return null;
+      }
+    }
+
     // Check if we have a validator for this type
-    const validator = this.registry.get(data.type as ComponentType);
+    const validator = this.registry.get(data.type);
 
     if (!validator) {
       return {
         type: data.type,
         rawData: data,
         isValid: false,
-        error: `Unknown component type: "${data.type}"`
+        error: `Unknown component type: "${data.type}"`,
+        path
       };
     }
 
+    // Templated fields: fill in {{expressions}} from the render context
+    const templated = interpolateFields(data, data.template, state.context);
+    if (!templated.valid) {
+      return { type: data.type, rawData: data, isValid: false, error: templated.error, path };
+    }
+
+    // Client capabilities: unsupported components fall back (or fail)
+    let input = templated.data;
+    if (state.client !== null) {
+      const negotiated = negotiate(input, state.client, state.fallbacks);
+      if (!negotiated.valid) {
+        return { type: data.type, rawData: data, isValid: false, error: negotiated.error, path };
+      }
+      const from = capabilityOf(input);
+      if (negotiated.to !== from) {
+        state.downgrades.push({ path, from, to: negotiated.to });
+      }
+      if (negotiated.data === null) {
+        return null;
+      }
+      if (negotiated.replaced) {
+        // Replacements render from scratch, and may fall back again
+        if (state.fallbackStack.includes(from)) {
+          const error = `Fallback cycle: ${[...state.fallbackStack, from].join(' → ')}`;
+          return { type: data.type, rawData: data, isValid: false, error, path };
+        }
+        state.fallbackStack.push(from);
+        try {
+          return this.validateComponent(negotiated.data, path, depth, state);
+        } finally {
+          state.fallbackStack.pop();
+        }
+      }
+      input = negotiated.data;
+    }
+
+    // Data-bound components: fill in the bound field from the resolved source
+    let source: DataSource | undefined;
+    if (data.source !== undefined) {
+      const bind = bindTargets[data.type];
+      if (!bind) {
+        return {
+          type: data.type,
+          rawData: data,
+          isValid: false,
+          error: `Component type "${data.type}" does not support data sources`,
+          path
+        };
+      }
+
+      const validated = validateDataSource(data.source);
+      if (!validated.valid) {
+        const error = `Invalid data source: ${validated.error}`;
+        return { type: data.type, rawData: data, isValid: false, error, path };
+      }
+      source = validated.source;
+
+      const resolved = state.options.data.get(sourceKey(source)) ?? { status: 'loading' };
+      if (resolved.status === 'loading') {
+        return { type: data.type, rawData: data, isValid: false, status: 'loading', source, path };
+      }
+      if (resolved.status === 'error') {
+        const error = `Data source failed: ${resolved.error}`;
+        return { type: data.type, rawData: data, isValid: false, status: 'error', source, error, path };
+      }
+      input = bind(input, resolved.value);
+    }
+
+    const context: RenderContext = {
+      path,
+      depth,
+      renderChildren: (items, key = 'items') => {
+        const results = this.renderList(items, index => `${path}.${key}[${index}]`, depth + 1, state);
+        // Data-bound children waiting on (or failed by) their source are not invalid, so they always stay
+        return state.options.keepInvalidChildren
+          ? results
+          : results.filter(result => result.isValid || 'status' in result);
+      }
+    };
+
     // Run the validator
     try {
-      const validComponent = validator(data);
+      const validComponent = validator(input, context);
 
       if (validComponent === null) {
         return {
           type: data.type,
           rawData: data,
           isValid: false,
-          error: `Invalid data for component type "${data.type}"`
+          error: `Invalid data for component type "${data.type}"`,
+          path
         };
       }
 
+      // Action bindings are shared by all component types, so they are checked here
+      const extras: { actions?: ActionBindings; source?: DataSource } = {};
+      if (data.actions !== undefined) {
+        const actions = validateActions(data.actions);
+        if (!actions.valid) {
+          return { type: data.type, rawData: data, isValid: false, error: actions.error, path };
+        }
+        extras.actions = actions.bindings;
+      }
+      if (source !== undefined) {
+        extras.source = source;
+      }
+
       return {
-        component: validComponent,
-        isValid: true
+        component: { ...validComponent, ...extras } as ValidComponent<TCustom>,
+        isValid: true,
+        path
       };
     } catch (error) {
       return {
         type: data.type,
         rawData: data,
         isValid: false,
-        error: `Validation error: ${error instanceof Error ? error.message : String(error)}`
+        error: `Validation error: ${error instanceof Error ? error.message : String(error)}`,
+        path
       };
     }
   }
@@ -303,7 +722,7 @@ export class ComponentRenderer {
   /**
    * Render a complete screen configuration
    */
-  render(config: unknown): RenderOutput {
+  render(config: unknown, options: RenderOptions = {}): RenderOutput<ValidComponent<TCustom>> {
     // Validate config structure
     if (typeof config !== 'object' || config === null) {
       return {
@@ -333,20 +752,527 @@ export class ComponentRenderer {
       };
     }
 
-    // Render all components
-    const results = data.components.map((comp: any) => this.renderComponent(comp));
+    // Validate fragment definitions
+    const fragments = new Map<string, unknown[]>();
+    if (data.fragments !== undefined) {
+      if (typeof data.fragments !== 'object' || data.fragments === null || Array.isArray(data.fragments)) {
+        return {
+          screen: data.screen,
+          components: [],
+          errors: ['Invalid configuration: "fragments" must be an object']
+        };
+      }
+      for (const [name, fragment] of Object.entries(data.fragments)) {
+        fragments.set(name, Array.isArray(fragment) ? fragment : [fragment]);
+      }
+    }
 
-    // Collect errors
-    const errors = results
-      .filter((result: RenderResult): result is UnknownComponent => !result.isValid)
-      .map((result: UnknownComponent) => result.error);
+    // Validate screen-wide fallbacks (each one is checked when it is used)
+    const fallbacks = new Map<string, unknown>();
+    if (data.fallbacks !== undefined) {
+      if (typeof data.fallbacks !== 'object' || data.fallbacks === null || Array.isArray(data.fallbacks)) {
+        return {
+          screen: data.screen,
+          components: [],
+          errors: ['Invalid configuration: "fallbacks" must be an object']
+        };
+      }
+      for (const [capability, fallback] of Object.entries(data.fallbacks)) {
+        fallbacks.set(capability, fallback);
+      }
+    }
+
+    const client = options.client ?? null;
+    const context = client === null
+      ? options.context ?? {}
+      : { client: { platform: client.platform, appVersion: client.appVersion }, ...options.context };
+    const state: RenderState = {
+      options: {
+        keepInvalidChildren: options.keepInvalidChildren ?? false,
+        maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH,
+        data: options.data ?? new Map(),
+        context
+      },
+      errors: [],
+      fragments,
+      fragmentStack: [],
+      context,
+      client,
+      fallbacks,
+      fallbackStack: [],
+      downgrades: []
+    };
+
+    // Render all components (errors are collected in document order, children first)
+    const results = this.renderList(data.components, index => `components[${index}]`, 1, state);
 
     return {
       screen: data.screen,
       components: results,
-      errors
+      errors: state.errors,
+      ...(client !== null && { downgrades: state.downgrades })
+    };
+  }
+}
+
+// ============================================
+// Actions
+// ============================================
+
+const actionTriggers: ActionTrigger[] = ['onTap', 'onLongPress'];
+const apiActionMethods: ApiActionMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+type ActionValidation = { valid: true; action: ComponentAction } | { valid: false; error: string };
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Validate a single action config from the server
+ */
+export function validateAction(data: any): ActionValidation {
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, error: 'action must be an object' };
+  }
+
+  switch (data.type) {
+    case 'navigate': {
+      if (!isNonEmptyString(data.screen)) {
+        return { valid: false, error: 'navigate requires a "screen"' };
+      }
+      if (data.params !== undefined) {
+        const params = data.params;
+        if (typeof params !== 'object' || params === null ||
+            !Object.values(params).every(value => typeof value === 'string')) {
+          return { valid: false, error: 'navigate "params" must map names to strings' };
+        }
+        return { valid: true, action: { type: 'navigate', screen: data.screen, params: { ...params } } };
+      }
+      return { valid: true, action: { type: 'navigate', screen: data.screen } };
+    }
+
+    case 'openUrl': {
+      // Only web URLs: a server-sent "javascript:" or app-scheme URL must never be opened
+      let url: URL;
+      try {
+        url = new URL(data.url);
+      } catch {
+        return { valid: false, error: 'openUrl requires an absolute "url"' };
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return { valid: false, error: `openUrl does not allow "${url.protocol}" URLs` };
+      }
+      return { valid: true, action: { type: 'openUrl', url: url.href } };
+    }
+
+    case 'refresh':
+      if (data.target !== undefined && !isNonEmptyString(data.target)) {
+        return { valid: false, error: 'refresh "target" must be a component id' };
+      }
+      return {
+        valid: true,
+        action: data.target === undefined ? { type: 'refresh' } : { type: 'refresh', target: data.target }
+      };
+
+    case 'callApi': {
+      if (!isNonEmptyString(data.endpoint) || !data.endpoint.startsWith('/')) {
+        return { valid: false, error: 'callApi requires an "endpoint" path starting with "/"' };
+      }
+      const method = data.method ?? 'POST';
+      if (!apiActionMethods.includes(method)) {
+        return { valid: false, error: `callApi "method" must be one of ${apiActionMethods.join(', ')}` };
+      }
+      return { valid: true, action: { type: 'callApi', endpoint: data.endpoint, method, body: data.body } };
+    }
+
+    case 'dispatch':
+      if (!isNonEmptyString(data.event)) {
+        return { valid: false, error: 'dispatch requires an "event" name' };
+      }
+      return { valid: true, action: { type: 'dispatch', event: data.event, payload: data.payload } };
+
+    default:
+      return { valid: false, error: `unknown action type "${data.type}"` };
+  }
+}
+
+/**
+ * Validate a component's action bindings ({ onTap: {...}, onLongPress: {...} })
+ */
+export function validateActions(
+  data: unknown
+): { valid: true; bindings: ActionBindings } | { valid: false; error: string } {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { valid: false, error: 'Invalid actions: must be an object of triggers' };
+  }
+
+  const bindings: ActionBindings = {};
+  for (const [trigger, config] of Object.entries(data)) {
+    if (!actionTriggers.includes(trigger as ActionTrigger)) {
+      return { valid: false, error: `Invalid actions: unknown trigger "${trigger}"` };
+    }
+    const result = validateAction(config);
+    if (!result.valid) {
+      return { valid: false, error: `Invalid action for "${trigger}": ${result.error}` };
+    }
+    bindings[trigger as ActionTrigger] = result.action;
+  }
+  return { valid: true, bindings };
+}
+
+// The action being handled and the component that triggered it (absent for direct dispatch)
+export interface ActionSource {
+  component?: AnyComponent;
+  trigger?: ActionTrigger;
+}
+
+export type ActionHandler<TAction extends ComponentAction> =
+  (action: TAction, source: ActionSource) => void | Promise<void>;
+
+function isActionOf<TType extends ActionType>(
+  action: ComponentAction,
+  type: TType
+): action is Extract<ComponentAction, { type: TType }> {
+  return action.type === type;
+}
+
+// Handlers for custom events, typed by the host's event map
+export type EventHandler<TPayload> = (payload: TPayload, source: ActionSource) => void | Promise<void>;
+
+export type DispatchResult = { handled: true } | { handled: false; error: string };
+
+/**
+ * Routes component actions to handlers registered by the host app.
+ * TEvents maps custom event names to their payload types:
+ *
+ * const dispatcher = new ActionDispatcher<{ openRun: { runId: string } }>()
+ *   .on('navigate', action => router.push(action.screen, action.params))
+ *   .onEvent('openRun', payload => showRun(payload.runId));
+ * await dispatcher.trigger(component, 'onTap');
+ */
+export class ActionDispatcher<TEvents extends Record<string, unknown> = Record<string, unknown>> {
+  private handlers = new Map<ActionType, ActionHandler<ComponentAction>>();
+  private eventHandlers = new Map<string, EventHandler<unknown>>();
+
+  /**
+   * Register the handler for an action type (replaces any previous one)
+   */
+  on<TType extends ActionType>(
+    type: TType,
+    handler: ActionHandler<Extract<ComponentAction, { type: TType }>>
+  ): this {
+    // Stored per type, so the guard only narrows what the map lookup already guarantees
+    this.handlers.set(type, (action, source) => (isActionOf(action, type) ? handler(action, source) : undefined));
+    return this;
+  }
+
+  /**
+   * Register the handler for a custom event, used for "dispatch" actions
+   * when no "dispatch" handler is registered
+   */
+  onEvent<TEvent extends keyof TEvents & string>(event: TEvent, handler: EventHandler<TEvents[TEvent]>): this {
+    // Payloads come from the screen config unchecked: TEvents is the host's promise about their shape
+    this.eventHandlers.set(event, (payload, source) => handler(payload as TEvents[TEvent], source));
+    return this;
+  }
+
+  /**
+   * Perform an action. Never throws: missing handlers and handler failures are returned.
+   */
+  async dispatch(action: ComponentAction, source: ActionSource = {}): Promise<DispatchResult> {
+    try {
+      const handler = this.handlers.get(action.type);
+      if (handler) {
+        await handler(action, source);
+        return { handled: true };
+      }
+
+      if (action.type === 'dispatch') {
+        const eventHandler = this.eventHandlers.get(action.event);
+        if (eventHandler) {
+          await eventHandler(action.payload, source);
+          return { handled: true };
+        }
+        return { handled: false, error: `No handler for event "${action.event}"` };
+      }
+
+      return { handled: false, error: `No handler for action "${action.type}"` };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { handled: false, error: `Action "${action.type}" failed: ${message}` };
+    }
+  }
+
+  /**
+   * Perform the action a rendered component binds to a trigger
+   */
+  async trigger(component: AnyComponent, trigger: ActionTrigger): Promise<DispatchResult> {
+    const action = component.actions?.[trigger];
+    if (!action) {
+      return { handled: false, error: `Component has no "${trigger}" action` };
+    }
+    return this.dispatch(action, { component, trigger });
+  }
+}
+
+// ============================================
+// Traversal
+// ============================================
+
+/**
+ * Whether a value is a RenderResult (valid, unknown or unresolved)
+ */
+export function isRenderResult(value: unknown): value is RenderResult<AnyComponent> {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as { isValid?: unknown }).isValid === 'boolean';
+}
+
+/**
+ * The non-empty lists of nested results of a rendered component, by field
+ * ("items" for grid/list, or any field of a custom component holding results)
+ */
+export function nestedResults(
+  result: RenderResult<AnyComponent>
+): { field: string; results: RenderResult<AnyComponent>[] }[] {
+  if (!result.isValid) return [];
+  const component = result.component as unknown as Record<string, unknown>;
+  return Object.keys(component)
+    .filter(field => {
+      const value = component[field];
+      return Array.isArray(value) && value.length > 0 && value.every(isRenderResult);
+    })
+    .map(field => ({ field, results: component[field] as RenderResult<AnyComponent>[] }));
+}
+
+// ============================================
+// Templates
+// ============================================
+
+// Config fields that are never templated
+const untemplatedFields = new Set(['type', 'id', 'visibleIf', 'template']);
+
+/**
+ * Interpolate {{expressions}} in the top-level string fields a config opts in
+ * with "template" (nested children are interpolated when they are rendered).
+ * Without it, "{{" is literal text.
+ */
+function interpolateFields(
+  data: Record<string, unknown>,
+  template: unknown,
+  context: Record<string, unknown>
+): { valid: true; data: Record<string, unknown> } | { valid: false; error: string } {
+  if (template === undefined || template === false) {
+    return { valid: true, data };
+  }
+  const isFieldList = Array.isArray(template) && template.every(field => typeof field === 'string');
+  if (template !== true && !isFieldList) {
+    return { valid: false, error: 'Invalid template: must be true or an array of field names' };
+  }
+
+  let result = data;
+  for (const [field, value] of Object.entries(data)) {
+    if (untemplatedFields.has(field) || typeof value !== 'string') continue;
+    if (template !== true && !template.includes(field)) continue;
+
+    const rendered = renderTemplateValue(value, context);
+    if (!rendered.valid) {
+      return { valid: false, error: `Invalid template in "${field}": ${rendered.error}` };
+    }
+    result = { ...result, [field]: rendered.value };
+  }
+  return { valid: true, data: result };
+}
+
+// ============================================
+// Client Capabilities
+// ============================================
+
+// The field that holds each built-in type's variant, and its value when omitted
+const variantFields: Record<string, { field: string; default?: string }> = {
+  chart: { field: 'chartType' },
+  list: { field: 'orientation', default: 'vertical' },
+  header: { field: 'style', default: 'medium' }
+};
+
+function variantOf(data: Record<string, any>): string | undefined {
+  const variant = variantFields[data.type];
+  const value = variant ? data[variant.field] ?? variant.default : undefined;
+  return value === undefined ? undefined : String(value);
+}
+
+// Capability name of a component config: "chart.pie", or just the type when it has no variant
+function capabilityOf(data: Record<string, any>): string {
+  const variant = variantOf(data);
+  return variant === undefined ? data.type : `${data.type}.${variant}`;
+}
+
+function isSupported(client: ClientCapabilities, data: Record<string, any>): boolean {
+  if (!Object.prototype.hasOwnProperty.call(client.components, data.type)) {
+    return false;
+  }
+  const supported = client.components[data.type];
+  const variant = variantOf(data);
+  return supported === true || variant === undefined || (Array.isArray(supported) && supported.includes(variant));
+}
+
+function validateFallback(data: any): Fallback | null {
+  if (data === 'hidden') {
+    return data;
+  }
+  if (typeof data !== 'object' || data === null) {
+    return null;
+  }
+  if (isNonEmptyString(data.variant)) {
+    return { variant: data.variant };
+  }
+  const replacement = data.replace;
+  if (typeof replacement === 'object' && replacement !== null && typeof replacement.type === 'string') {
+    return { replace: replacement };
+  }
+  return null;
+}
+
+type Negotiation =
+  | { valid: true; to: string | null; data: Record<string, any> | null; replaced: boolean }
+  | { valid: false; error: string };
+
+/**
+ * Find what to render for a component on this client: the component itself
+ * when supported, otherwise its fallback (following variant fallbacks until
+ * a supported variant is found)
+ */
+function negotiate(
+  data: Record<string, any>,
+  client: ClientCapabilities,
+  fallbacks: Map<string, unknown>
+): Negotiation {
+  const tried: string[] = [];
+  let current = data;
+
+  while (!isSupported(client, current)) {
+    const capability = capabilityOf(current);
+    if (tried.includes(capability)) {
+      return { valid: false, error: `Fallback cycle: ${[...tried, capability].join(' → ')}` };
+    }
+    tried.push(capability);
+
+    // The component's own fallback only applies to its original capability
+    const declared = tried.length === 1 && current.fallback !== undefined
+      ? current.fallback
+      : fallbacks.get(capability) ?? fallbacks.get(current.type);
+    if (declared === undefined) {
+      return { valid: false, error: `Client does not support "${capability}"` };
+    }
+    const fallback = validateFallback(declared);
+    if (fallback === null) {
+      return { valid: false, error: `Invalid fallback for "${capability}"` };
+    }
+
+    if (fallback === 'hidden') {
+      return { valid: true, to: null, data: null, replaced: false };
+    }
+    if ('replace' in fallback) {
+      const replacement = fallback.replace as Record<string, any>;
+      return { valid: true, to: capabilityOf(replacement), data: replacement, replaced: true };
+    }
+    const variant = variantFields[current.type];
+    if (!variant) {
+      return { valid: false, error: `Component type "${current.type}" has no variants` };
+    }
+    current = { ...current, [variant.field]: fallback.variant };
+  }
+
+  return { valid: true, to: capabilityOf(current), data: current, replaced: false };
+}
+
+// ============================================
+// Data Sources
+// ============================================
+
+// Fills a component's bound field from a resolved source value
+type BindTarget = (data: any, value: number | number[]) => any;
+
+const bindTargets: Record<string, BindTarget> = {
+  chart: (data, value) => ({ ...data, data: Array.isArray(value) ? value : [value] }),
+  metric: (data, value) => ({ ...data, value: Array.isArray(value) ? value[value.length - 1] : value })
+};
+
+type StepValidation = { valid: true; step: PipelineStep } | { valid: false; error: string };
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function validatePipelineStep(data: any): StepValidation {
+  switch (data?.transform) {
+    case 'filterByTimeRange':
+      if (typeof data.start !== 'string' || Number.isNaN(new Date(data.start).getTime()) ||
+          typeof data.end !== 'string' || Number.isNaN(new Date(data.end).getTime())) {
+        return { valid: false, error: 'filterByTimeRange requires ISO "start" and "end" dates' };
+      }
+      return { valid: true, step: { transform: 'filterByTimeRange', start: data.start, end: data.end } };
+    case 'sampleMetrics':
+      if (!isPositiveInteger(data.maxPoints)) {
+        return { valid: false, error: 'sampleMetrics requires a positive integer "maxPoints"' };
+      }
+      return { valid: true, step: { transform: 'sampleMetrics', maxPoints: data.maxPoints } };
+    case 'movingAverage':
+      if (!isPositiveInteger(data.windowSize)) {
+        return { valid: false, error: 'movingAverage requires a positive integer "windowSize"' };
+      }
+      return { valid: true, step: { transform: 'movingAverage', windowSize: data.windowSize } };
+    default:
+      return { valid: false, error: `unknown pipeline transform "${data?.transform}"` };
+  }
+}
+
+/**
+ * Validate a data source config from the server
+ */
+export function validateDataSource(
+  data: any
+): { valid: true; source: DataSource } | { valid: false; error: string } {
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, error: 'source must be an object' };
+  }
+  if (data.kind !== 'experimentMetric' && data.kind !== 'metricHistory') {
+    return { valid: false, error: `unknown source kind "${data.kind}"` };
+  }
+  if (!isNonEmptyString(data.experimentId) || !isNonEmptyString(data.metric)) {
+    return { valid: false, error: `${data.kind} requires "experimentId" and "metric"` };
+  }
+
+  if (data.kind === 'experimentMetric') {
+    return {
+      valid: true,
+      source: { kind: 'experimentMetric', experimentId: data.experimentId, metric: data.metric }
     };
   }
+
+  const source: DataSource = { kind: 'metricHistory', experimentId: data.experimentId, metric: data.metric };
+  if (data.pipeline !== undefined) {
+    if (!Array.isArray(data.pipeline)) {
+      return { valid: false, error: '"pipeline" must be an array of steps' };
+    }
+    const steps: PipelineStep[] = [];
+    for (const [index, stepData] of data.pipeline.entries()) {
+      const step = validatePipelineStep(stepData);
+      if (!step.valid) {
+        return { valid: false, error: `pipeline[${index}]: ${step.error}` };
+      }
+      steps.push(step.step);
+    }
+    source.pipeline = steps;
+  }
+  return { valid: true, source };
+}
+
+/**
+ * Stable key for a validated source (identical sources share one fetch)
+ */
+export function sourceKey(source: DataSource): string {
+  return JSON.stringify(source);
 }
 
 // Test data
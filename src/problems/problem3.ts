@@ -18,24 +18,48 @@
  * - Support generic error handling
  */
 
+import { z } from 'zod';
+import {
+  withAbort,
+  type HttpMethod,
+  type Transport,
+  type TransportRequest,
+  type TransportResponse
+} from './transport';
+
+// One way a response failed its schema ("experiments.0.status": where in the payload)
+interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
 // API Error type
 interface ApiError {
   code: string;
   message: string;
   statusCode?: number;
   details?: any;
+  issues?: ValidationIssue[]; // Set for VALIDATION_ERROR
+}
+
+// How a response was obtained
+interface ResponseMeta {
+  attempts: number; // Requests sent, retries included (0: never sent)
+  totalWait: number; // Milliseconds spent waiting between attempts
 }
 
 // API Response: Success case
 interface ApiSuccessResponse<T> {
   success: true;
   data: T;
+  meta: ResponseMeta;
 }
 
 // API Response: Error case
 interface ApiErrorResponse {
   success: false;
   error: ApiError;
+  meta: ResponseMeta;
 }
 
 // Union type: Response can be success or error
@@ -75,92 +99,350 @@ interface RawExperimentListResponse {
   page: number;
 }
 
+// One logged value of a metric (history endpoint, after date transformation)
+interface MetricHistoryPoint {
+  step: number;
+  value: number;
+  timestamp: Date;
+}
+
+// Raw history point (before transformation)
+interface RawMetricHistoryPoint {
+  step: number;
+  value: number;
+  timestamp: string; // ISO string from API
+}
+
+// ============================================
+// Response Schemas
+// ============================================
+
+// Raw payloads are checked against these before any transformation (timestamps may carry a UTC offset)
+const RawExperimentDataSchema: z.ZodType<RawExperimentData> = z.object({
+  id: z.string(),
+  name: z.string(),
+  status: z.enum(['running', 'completed', 'failed']),
+  metrics: z.record(z.string(), z.number()),
+  createdAt: z.iso.datetime({ offset: true }),
+  updatedAt: z.iso.datetime({ offset: true })
+});
+
+const RawExperimentListSchema: z.ZodType<RawExperimentListResponse> = z.object({
+  experiments: z.array(RawExperimentDataSchema),
+  total: z.number().int().nonnegative(),
+  page: z.number().int().positive()
+});
+
+const RawMetricHistorySchema: z.ZodType<RawMetricHistoryPoint[]> = z.array(z.object({
+  step: z.number().int().nonnegative(),
+  value: z.number(),
+  timestamp: z.iso.datetime({ offset: true })
+}));
+
+// Query parameter values: arrays repeat the key, null and undefined are left out
+type ParamValue = string | number | boolean | null | undefined;
+type QueryParams = Record<string, ParamValue | ParamValue[]>;
+
+// A file part of a multipart body
+interface MultipartFile {
+  filename: string;
+  contentType?: string; // Default application/octet-stream
+  data: string | Uint8Array;
+}
+
+// How a request body is encoded:
+// - json: any JSON value (the default)
+// - form: an object of ParamValues, as application/x-www-form-urlencoded
+// - multipart: an object of ParamValues and MultipartFiles, as multipart/form-data
+type BodyEncoding = 'json' | 'form' | 'multipart';
+
+// A retry about to happen, for RetryPolicy.onRetry
+interface RetryEvent {
+  method: HttpMethod;
+  url: string;
+  attempt: number; // The attempt that failed (1: the first request)
+  delay: number; // Milliseconds until the next attempt
+  error: ApiError; // Why the attempt failed
+}
+
+/**
+ * When and how failed requests are retried. Network errors, timeouts and
+ * retryOnStatus responses are retried; anything else (a 404, a schema
+ * mismatch, a body that is not JSON) is returned at once. POST and PATCH are only retried with an
+ * Idempotency-Key header or retryNonIdempotent, since a failed attempt may
+ * still have reached the server.
+ *
+ * Attempt n waits baseDelay * backoffFactor^(n-1), capped at maxDelay, then
+ * jittered: "full" picks a random wait up to that, "equal" keeps half and
+ * randomizes the rest. A Retry-After header (seconds or an HTTP date) replaces
+ * the computed wait; when it asks for more than maxDelay, the error is returned.
+ */
+interface RetryPolicy {
+  maxRetries?: number; // Default 3
+  baseDelay?: number; // Milliseconds (default 1000)
+  backoffFactor?: number; // Default 2
+  maxDelay?: number; // Milliseconds (default 30000)
+  jitter?: 'none' | 'full' | 'equal'; // Default full
+  retryOnStatus?: number[]; // Default 408, 429, 500, 502, 503, 504
+  retryNonIdempotent?: boolean; // Retry POST and PATCH without an Idempotency-Key (default false)
+  onRetry?: (event: RetryEvent) => void; // Called before each retry (e.g. for logging)
+}
+
+type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'onRetry'>> & Pick<RetryPolicy, 'onRetry'>;
+
+// What one attempt through the transport produced
+type AttemptOutcome =
+  | { received: true; response: TransportResponse }
+  | { received: false; failure: unknown; timedOut: boolean };
+
+// Options every endpoint method takes
+interface CallOptions {
+  signal?: AbortSignal; // Aborting cancels the request (a CANCELLED error), retries included
+  timeout?: number; // Milliseconds per attempt before it is aborted (TIMEOUT), overriding the client's; 0: none
+  retry?: RetryPolicy; // Overrides the client's policy, field by field
+}
+
+// Options for any request
+interface RequestOptions<T = unknown> extends CallOptions {
+  headers?: Record<string, string>; // Sent as given (accept defaults to application/json)
+  query?: QueryParams; // Appended to the endpoint's query string
+  schema?: z.ZodType<T>; // Validates the response payload (a mismatch is a VALIDATION_ERROR)
+}
+
+// Options for requests with a body
+interface BodyRequestOptions<T = unknown> extends RequestOptions<T> {
+  encoding?: BodyEncoding; // Also sets content-type, unless given in headers
+}
+
 // API Client configuration
 interface ApiClientConfig {
   baseUrl: string;
-  maxRetries?: number;
-  retryDelay?: number;
-  timeout?: number;
+  maxRetries?: number; // Shorthand for retry.maxRetries
+  retryDelay?: number; // Shorthand for retry.baseDelay
+  retry?: RetryPolicy;
+  timeout?: number; // Milliseconds per attempt (default 10000; 0: none)
+  transport?: Transport; // How requests are sent (default: mockTransport, the simulated API; see transport.ts)
 }
 
 // API Client class
 export class ApiClient {
   private baseUrl: string;
-  private maxRetries: number;
-  private retryDelay: number;
+  private retryPolicy: ResolvedRetryPolicy;
   private timeout: number;
+  private transport: Transport;
 
   constructor(config: string | ApiClientConfig) {
     // Support both simple string URL and full config object
     if (typeof config === 'string') {
       this.baseUrl = config;
-      this.maxRetries = 3;
-      this.retryDelay = 1000;
+      this.retryPolicy = DEFAULT_RETRY_POLICY;
       this.timeout = 10000;
+      this.transport = mockTransport;
     } else {
       this.baseUrl = config.baseUrl;
-      this.maxRetries = config.maxRetries ?? 3;
-      this.retryDelay = config.retryDelay ?? 1000;
+      this.retryPolicy = mergeRetryPolicy(DEFAULT_RETRY_POLICY, {
+        maxRetries: config.maxRetries,
+        baseDelay: config.retryDelay,
+        ...config.retry
+      });
       this.timeout = config.timeout ?? 10000;
+      this.transport = config.transport ?? mockTransport;
     }
   }
 
   /**
-   * Generic GET method with type safety and retries
+   * Generic GET method with type safety and retries. With a schema, the
+   * payload is validated and T is inferred from it:
+   *
+   * const response = await client.get('/runs/7', { schema: RunSchema }); // ApiResponse<z.infer<typeof RunSchema>>
    */
-  async get<T>(endpoint: string, retries = this.maxRetries): Promise<ApiResponse<T>> {
-    const url = `${this.baseUrl}${endpoint}`;
+  async get<T>(endpoint: string, options: RequestOptions<T> = {}): Promise<ApiResponse<T>> {
+    return this.request<T>('GET', endpoint, options);
+  }
 
-    try {
-      // Use mockFetch for testing (replace with real fetch in production)
-      const response = await mockFetch(url);
-
-      // Check if response is OK
-      if (!response.ok) {
-        return {
-          success: false,
-          error: {
+  /**
+   * POST a typed body:
+   *
+   * client.post<ExperimentData, { name: string }>('/experiments', { name: 'Run 3' });
+   * client.post('/artifacts', { runId: 'exp-1', file: { filename: 'model.bin', data: bytes } },
+   *   { encoding: 'multipart' });
+   */
+  async post<T, TBody = unknown>(
+    endpoint: string,
+    body?: TBody,
+    options: BodyRequestOptions<T> = {}
+  ): Promise<ApiResponse<T>> {
+    return this.request<T>('POST', endpoint, { ...options, body });
+  }
+
+  /**
+   * PUT a typed body (see post)
+   */
+  async put<T, TBody = unknown>(
+    endpoint: string,
+    body?: TBody,
+    options: BodyRequestOptions<T> = {}
+  ): Promise<ApiResponse<T>> {
+    return this.request<T>('PUT', endpoint, { ...options, body });
+  }
+
+  /**
+   * PATCH with a typed body (see post)
+   */
+  async patch<T, TBody = unknown>(
+    endpoint: string,
+    body?: TBody,
+    options: BodyRequestOptions<T> = {}
+  ): Promise<ApiResponse<T>> {
+    return this.request<T>('PATCH', endpoint, { ...options, body });
+  }
+
+  /**
+   * DELETE (data is undefined when the server sends no body)
+   */
+  async delete<T = void>(endpoint: string, options: RequestOptions<T> = {}): Promise<ApiResponse<T>> {
+    return this.request<T>('DELETE', endpoint, options);
+  }
+
+  /**
+   * Send a request with any method. Bodies are encoded before sending;
+   * one that cannot be encoded is an INVALID_REQUEST error.
+   */
+  async request<T>(
+    method: HttpMethod,
+    endpoint: string,
+    options: BodyRequestOptions<T> & { body?: unknown } = {}
+  ): Promise<ApiResponse<T>> {
+    const headers: Record<string, string> = { accept: 'application/json' };
+    for (const [name, value] of Object.entries(options.headers ?? {})) {
+      headers[name.toLowerCase()] = value;
+    }
+
+    let body: string | Uint8Array | undefined;
+    if (options.body !== undefined) {
+      const encoded = encodeBody(options.body, options.encoding ?? 'json');
+      if (!encoded.valid) {
+        const error = { code: 'INVALID_REQUEST', message: encoded.error };
+        return { success: false, error, meta: { attempts: 0, totalWait: 0 } };
+      }
+      body = encoded.body;
+      headers['content-type'] ??= encoded.contentType;
+    }
+
+    const url = appendQuery(`${this.baseUrl}${endpoint}`, options.query ?? {});
+    const response = await this.send({ method, url, headers, body }, options);
+    if (!response.success || !options.schema) {
+      return response as ApiResponse<T>;
+    }
+    return validateResponse(response.data, options.schema, response.meta);
+  }
+
+  /**
+   * Send through the transport, retrying transient failures as the retry
+   * policy allows. Each attempt is aborted on timeout or when the caller's
+   * signal aborts; the client stops waiting then even if the transport
+   * ignores the abort.
+   */
+  private async send(request: TransportRequest, call: CallOptions): Promise<ApiResponse<unknown>> {
+    const signal = call.signal;
+    const timeout = call.timeout ?? this.timeout;
+    const policy = mergeRetryPolicy(this.retryPolicy, call.retry);
+    const meta: ResponseMeta = { attempts: 0, totalWait: 0 };
+
+    for (;;) {
+      if (signal?.aborted) {
+        return cancelledResponse(meta);
+      }
+
+      meta.attempts++;
+      const outcome = await this.attempt(request, timeout, signal);
+      // Cancelled requests are never retried
+      if (signal?.aborted) {
+        return cancelledResponse(meta);
+      }
+
+      let error: ApiError;
+      let retryAfter: number | undefined;
+      if (outcome.received) {
+        const response = outcome.response;
+        if (response.status >= 200 && response.status < 300) {
+          try {
+            const data = response.body === '' ? undefined : JSON.parse(response.body);
+            return { success: true, data, meta };
+          } catch (parseError) {
+            // The same body would fail again, so this is never retried
+            error = {
+              code: 'INVALID_RESPONSE',
+              message: `Response is not valid JSON: ${errorMessage(parseError)}`,
+              statusCode: response.status,
+              details: parseError
+            };
+          }
+        } else {
+          error = {
             code: 'HTTP_ERROR',
             message: `HTTP ${response.status}: ${response.statusText}`,
             statusCode: response.status
-          }
-        };
+          };
+          retryAfter = parseRetryAfter(response.headers['retry-after']);
+        }
+      } else if (outcome.timedOut) {
+        error = { code: 'TIMEOUT', message: `Request timed out after ${timeout}ms` };
+      } else {
+        error = { code: 'NETWORK_ERROR', message: errorMessage(outcome.failure), details: outcome.failure };
       }
 
-      // Parse JSON
-      const data = await response.json();
+      const delay = retryDelay(policy, request, error, meta.attempts, retryAfter);
+      if (delay === null) {
+        return { success: false, error, meta };
+      }
 
-      return {
-        success: true,
-        data: data as T
-      };
+      policy.onRetry?.({ method: request.method, url: request.url, attempt: meta.attempts, delay, error });
+      await this.delay(delay, signal);
+      if (!signal?.aborted) meta.totalWait += delay;
+    }
+  }
 
-    } catch (error) {
-      // Retry logic for transient failures
-      if (retries > 0) {
-        console.log(`⚠️  Request failed, retrying... (${retries} attempts left)`);
-        await this.delay(this.retryDelay);
-        return this.get<T>(endpoint, retries - 1);
-      }
+  /**
+   * One attempt through the transport, aborted after the timeout or with the signal
+   */
+  private async attempt(
+    request: TransportRequest,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<AttemptOutcome> {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = timeout > 0
+      ? setTimeout(() => {
+        timedOut = true;
+        controller.abort(new Error(`Request timed out after ${timeout}ms`));
+      }, timeout)
+      : undefined;
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
 
-      // No more retries, return error
-      return {
-        success: false,
-        error: {
-          code: 'NETWORK_ERROR',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          details: error
-        }
-      };
+    try {
+      const sent = this.transport.send({ ...request, signal: controller.signal });
+      return { received: true, response: await withAbort(sent, controller.signal) };
+    } catch (failure) {
+      return { received: false, failure, timedOut };
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
 
   /**
    * Get list of experiments with date transformation
    */
-  async getExperiments(page: number = 1): Promise<ApiResponse<ExperimentListResponse>> {
+  async getExperiments(page: number = 1, options: CallOptions = {}): Promise<ApiResponse<ExperimentListResponse>> {
     // 1. Fetch raw data from API
-    const response = await this.get<RawExperimentListResponse>(`/experiments?page=${page}`);
+    const response = await this.get('/experiments', {
+      ...options,
+      query: { page },
+      schema: RawExperimentListSchema
+    });
 
     // 2. If error, return as-is (short-circuit)
     if (!response.success) {
@@ -181,16 +463,17 @@ export class ApiClient {
         experiments: transformedExperiments,
         total: response.data.total,
         page: response.data.page
-      }
+      },
+      meta: response.meta
     };
   }
 
   /**
    * Get single experiment by ID with date transformation
    */
-  async getExperiment(id: string): Promise<ApiResponse<ExperimentData>> {
+  async getExperiment(id: string, options: CallOptions = {}): Promise<ApiResponse<ExperimentData>> {
     // 1. Fetch raw data from API
-    const response = await this.get<RawExperimentData>(`/experiments/${id}`);
+    const response = await this.get(`/experiments/${id}`, { ...options, schema: RawExperimentDataSchema });
 
     // 2. If error, return as-is
     if (!response.success) {
@@ -206,16 +489,252 @@ export class ApiClient {
 
     return {
       success: true,
-      data: transformed
+      data: transformed,
+      meta: response.meta
+    };
+  }
+
+  /**
+   * Get the logged history of one metric of an experiment, with date transformation
+   */
+  async getMetricHistory(
+    id: string,
+    metric: string,
+    options: CallOptions = {}
+  ): Promise<ApiResponse<MetricHistoryPoint[]>> {
+    const response = await this.get(`/experiments/${id}/history`, {
+      ...options,
+      query: { metric },
+      schema: RawMetricHistorySchema
+    });
+
+    if (!response.success) {
+      return response;
+    }
+
+    return {
+      success: true,
+      data: response.data.map(point => ({ ...point, timestamp: new Date(point.timestamp) })),
+      meta: response.meta
     };
   }
 
   /**
-   * Helper method to delay execution (for retry logic)
+   * Helper method to delay execution (for retry logic), cut short if the signal aborts
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener('abort', done, { once: true });
+    });
+  }
+}
+
+function cancelledResponse(meta: ResponseMeta): ApiErrorResponse {
+  return { success: false, error: { code: 'CANCELLED', message: 'Request was cancelled' }, meta };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error occurred';
+}
+
+// ============================================
+// Retry Policy
+// ============================================
+
+const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxRetries: 3,
+  baseDelay: 1000,
+  backoffFactor: 2,
+  maxDelay: 30000,
+  jitter: 'full',
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryNonIdempotent: false
+};
+
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'PUT', 'DELETE'];
+
+// Fields set in the override win; undefined ones keep the base value
+function mergeRetryPolicy(base: ResolvedRetryPolicy, override: RetryPolicy = {}): ResolvedRetryPolicy {
+  const merged = { ...base };
+  for (const [field, value] of Object.entries(override)) {
+    if (value !== undefined) (merged as Record<string, unknown>)[field] = value;
+  }
+  return merged;
+}
+
+/**
+ * Milliseconds a Retry-After header asks to wait (undefined when absent or invalid)
+ */
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  if (/^\s*\d+\s*$/.test(value)) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Milliseconds to wait before retrying a failed attempt, or null to give up
+ */
+function retryDelay(
+  policy: ResolvedRetryPolicy,
+  request: TransportRequest,
+  error: ApiError,
+  attempts: number,
+  retryAfter: number | undefined
+): number | null {
+  if (attempts > policy.maxRetries) return null;
+
+  const retryableStatus = error.code === 'HTTP_ERROR' && policy.retryOnStatus.includes(error.statusCode ?? 0);
+  const retryable = error.code === 'NETWORK_ERROR' || error.code === 'TIMEOUT' || retryableStatus;
+  const idempotent = IDEMPOTENT_METHODS.includes(request.method) ||
+    request.headers['idempotency-key'] !== undefined || policy.retryNonIdempotent;
+  if (!retryable || !idempotent) return null;
+
+  if (retryAfter !== undefined) {
+    return retryAfter <= policy.maxDelay ? retryAfter : null;
+  }
+
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * policy.backoffFactor ** (attempts - 1));
+  switch (policy.jitter) {
+    case 'full':
+      return Math.round(Math.random() * backoff);
+    case 'equal':
+      return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+    default:
+      return backoff;
+  }
+}
+
+// ============================================
+// Response Validation
+// ============================================
+
+function validateResponse<T>(data: unknown, schema: z.ZodType<T>, meta: ResponseMeta): ApiResponse<T> {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return { success: true, data: result.data, meta };
+  }
+
+  const issues = result.error.issues.map(issue => ({
+    path: issue.path.map(String).join('.'),
+    message: issue.message
+  }));
+  const summary = issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+  return {
+    success: false,
+    error: { code: 'VALIDATION_ERROR', message: `Invalid response: ${summary.join('; ')}`, issues },
+    meta
+  };
+}
+
+// ============================================
+// Request Encoding
+// ============================================
+
+type EncodedBody =
+  | { valid: true; body: string | Uint8Array; contentType: string }
+  | { valid: false; error: string };
+
+function isParamValue(value: unknown): value is ParamValue {
+  return value === null || value === undefined || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+function isMultipartFile(value: unknown): value is MultipartFile {
+  const file = value as MultipartFile;
+  return typeof value === 'object' && value !== null && typeof file.filename === 'string' &&
+    (typeof file.data === 'string' || file.data instanceof Uint8Array);
+}
+
+/**
+ * Add query parameters to a URL (which may already have a query string)
+ */
+function appendQuery(url: string, query: QueryParams): string {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== null && item !== undefined) params.append(name, String(item));
+    }
   }
+  const search = params.toString();
+  return search === '' ? url : `${url}${url.includes('?') ? '&' : '?'}${search}`;
+}
+
+function encodeBody(body: unknown, encoding: BodyEncoding): EncodedBody {
+  if (encoding === 'json') {
+    let json: string | undefined;
+    try {
+      json = JSON.stringify(body);
+    } catch (error) {
+      // Circular structures and BigInt values
+      return { valid: false, error: `Body cannot be encoded as JSON: ${errorMessage(error)}` };
+    }
+    if (json === undefined) {
+      return { valid: false, error: `Body cannot be encoded as JSON: a ${typeof body} has no JSON form` };
+    }
+    return { valid: true, body: json, contentType: 'application/json' };
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { valid: false, error: `A ${encoding} body must be an object of fields` };
+  }
+  // Every field as a list of values (arrays repeat the field)
+  const fields: [string, unknown[]][] = Object.entries(body)
+    .map(([name, value]) => [name, Array.isArray(value) ? value : [value]]);
+
+  if (encoding === 'form') {
+    const params = new URLSearchParams();
+    for (const [name, values] of fields) {
+      for (const value of values) {
+        if (!isParamValue(value)) {
+          return { valid: false, error: `Form field "${name}" must be a string, number or boolean` };
+        }
+        if (value !== null && value !== undefined) params.append(name, String(value));
+      }
+    }
+    return { valid: true, body: params.toString(), contentType: 'application/x-www-form-urlencoded' };
+  }
+
+  const boundary = `----ApiClientBoundary${Math.random().toString(16).slice(2)}`;
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  // Quotes and line breaks in names are percent-encoded, as browsers do
+  const quote = (text: string) => text.replace(/"/g, '%22').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+
+  for (const [name, values] of fields) {
+    for (const value of values) {
+      if (isMultipartFile(value)) {
+        parts.push(encoder.encode(
+          `--${boundary}\r\nContent-Disposition: form-data; name="${quote(name)}"; ` +
+          `filename="${quote(value.filename)}"\r\n` +
+          `Content-Type: ${value.contentType ?? 'application/octet-stream'}\r\n\r\n`
+        ));
+        parts.push(typeof value.data === 'string' ? encoder.encode(value.data) : value.data);
+        parts.push(encoder.encode('\r\n'));
+      } else if (isParamValue(value)) {
+        if (value === null || value === undefined) continue;
+        parts.push(encoder.encode(
+          `--${boundary}\r\nContent-Disposition: form-data; name="${quote(name)}"\r\n\r\n${String(value)}\r\n`
+        ));
+      } else {
+        return { valid: false, error: `Multipart field "${name}" must be a string, number, boolean or file` };
+      }
+    }
+  }
+  parts.push(encoder.encode(`--${boundary}--\r\n`));
+
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return { valid: true, body: bytes, contentType: `multipart/form-data; boundary=${boundary}` };
 }
 
 /**
@@ -257,6 +776,21 @@ export function mockFetch(url: string): Promise<any> {
             page: 1
           })
         });
+      } else if (url.includes('/history?metric=')) {
+        // Metric history: ten steps, one minute apart
+        const metric = new URL(url).searchParams.get('metric');
+        resolve({
+          ok: true,
+          status: 200,
+          statusText: 'OK',
+          json: () => Promise.resolve(
+            Array.from({ length: 10 }, (_, step) => ({
+              step,
+              value: metric === 'loss' ? 1 / (step + 1) : step * 0.1,
+              timestamp: new Date(Date.UTC(2025, 9, 27, 10, step)).toISOString()
+            }))
+          )
+        });
       } else if (url.includes('/experiments/')) {
         // Single experiment
         const id = url.split('/').pop();
@@ -286,6 +820,26 @@ export function mockFetch(url: string): Promise<any> {
   });
 }
 
+/**
+ * Transport over mockFetch: the simulated API, used when no transport is configured
+ */
+export const mockTransport: Transport = {
+  async send(request): Promise<TransportResponse> {
+    // The simulated API is read-only
+    if (request.method !== 'GET') {
+      return { status: 405, statusText: 'Method Not Allowed', headers: {}, body: '' };
+    }
+
+    const response = await withAbort(mockFetch(request.url), request.signal);
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(await response.json())
+    };
+  }
+};
+
 /**
  * Test helper: Simulate network error
  */
@@ -0,0 +1,365 @@
+/**
+ * Screen Diffing
+ *
+ * Compares two RenderOutputs of the same screen and produces a patch list, so
+ * a client refetching a dashboard only redraws what changed:
+ *
+ * const patch = diffScreens(previous, next);
+ * const updated = applyPatch(previous, patch); // deep-equals next
+ *
+ * Components are matched by key: "id:<id>" for components with an id, and
+ * "path:<config path>" otherwise (or when an id is used twice). Keys address
+ * components anywhere in the tree; a child list is named by its parent's key
+ * and field ("items" for grid/list, or any field of a custom component that
+ * holds rendered results). The screen root has key null and field "components".
+ *
+ * Patches are applied in order. All removals come first (so a component that
+ * changed parent is removed before it is re-inserted), then per list inserts
+ * and moves anchored before a sibling key (null: at the end), chosen so that
+ * components already in the right relative order stay put.
+ */
+
+import {
+  isRenderResult,
+  nestedResults,
+  type AnyComponent,
+  type RenderOutput,
+  type RenderResult
+} from './problem2';
+
+// ============================================
+// Patch Types
+// ============================================
+
+// A list of children: the parent's key (null: the screen root) and the field holding the list
+interface ListLocation {
+  parent: string | null;
+  field: string;
+}
+
+export type ScreenPatch =
+  | ListLocation & { op: 'insert'; key: string; before: string | null; result: RenderResult<AnyComponent> }
+  | ListLocation & { op: 'remove'; key: string }
+  | ListLocation & { op: 'move'; key: string; before: string | null }
+  // Changed props of a component (or of the result, for invalid ones); key null updates the screen fields.
+  // path is set when an id-keyed component moved to a different config path.
+  | { op: 'update'; key: string | null; set: Record<string, unknown>; unset: string[]; path?: string }
+  // Validity or component type changed, so the whole subtree is swapped
+  | { op: 'replace'; key: string; result: RenderResult<AnyComponent> };
+
+// ============================================
+// Keys & Traversal
+// ============================================
+
+type ResultList = RenderResult<AnyComponent>[];
+
+function isResultList(value: unknown): value is ResultList {
+  return Array.isArray(value) && value.every(isRenderResult);
+}
+
+interface IndexedNode {
+  result: RenderResult<AnyComponent>;
+  list: RenderResult<AnyComponent>[]; // The list the node sits in
+}
+
+/**
+ * Assign a key to every result in the tree (ids are only used while unique)
+ */
+function indexTree(roots: RenderResult<AnyComponent>[]): Map<string, IndexedNode> {
+  const index = new Map<string, IndexedNode>();
+
+  const visit = (list: RenderResult<AnyComponent>[]) => {
+    for (const result of list) {
+      index.set(keyFor(result, index), { result, list });
+      for (const nested of nestedResults(result)) {
+        visit(nested.results);
+      }
+    }
+  };
+
+  visit(roots);
+  return index;
+}
+
+function keyFor(result: RenderResult<AnyComponent>, taken: Map<string, unknown>): string {
+  if (result.isValid && typeof result.component.id === 'string' && !taken.has(`id:${result.component.id}`)) {
+    return `id:${result.component.id}`;
+  }
+  return `path:${result.path}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!isRecord(a) || !isRecord(b)) {
+    return Number.isNaN(a) && Number.isNaN(b);
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+
+  const aKeys = Object.keys(a).filter(key => a[key] !== undefined);
+  const bKeys = Object.keys(b).filter(key => b[key] !== undefined);
+  return aKeys.length === bKeys.length && aKeys.every(key => deepEqual(a[key], b[key]));
+}
+
+// ============================================
+// Diff
+// ============================================
+
+// Indices (into positions) of a longest strictly increasing subsequence
+function longestIncreasing(positions: number[]): Set<number> {
+  const tails: number[] = []; // tails[k]: index of the smallest tail of a run of length k + 1
+  const previous: number[] = new Array(positions.length).fill(-1);
+
+  positions.forEach((position, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (positions[tails[middle]] < position) low = middle + 1;
+      else high = middle;
+    }
+    if (low > 0) previous[index] = tails[low - 1];
+    tails[low] = index;
+  });
+
+  const result = new Set<number>();
+  for (let index = tails[tails.length - 1] ?? -1; index !== -1; index = previous[index]) {
+    result.add(index);
+  }
+  return result;
+}
+
+// Props to compare: the component (minus child lists) for valid results, the result itself otherwise
+function propsOf(result: RenderResult<AnyComponent>, children: string[]): Record<string, unknown> {
+  if (!result.isValid) {
+    return { ...result };
+  }
+  const props: Record<string, unknown> = { ...result.component };
+  for (const field of children) delete props[field];
+  return props;
+}
+
+function diffProps(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): { set: Record<string, unknown>; unset: string[] } | null {
+  const set: Record<string, unknown> = {};
+  const unset: string[] = [];
+
+  for (const [field, value] of Object.entries(after)) {
+    if (value === undefined) continue;
+    if (!deepEqual(before[field], value)) set[field] = value;
+  }
+  for (const [field, value] of Object.entries(before)) {
+    if (value !== undefined && after[field] === undefined) unset.push(field);
+  }
+
+  return Object.keys(set).length > 0 || unset.length > 0 ? { set, unset } : null;
+}
+
+class ScreenDiffer {
+  readonly removals: ScreenPatch[] = [];
+  readonly changes: ScreenPatch[] = [];
+  private previousKeys: Map<RenderResult<AnyComponent>, string>;
+  private nextKeys: Map<RenderResult<AnyComponent>, string>;
+
+  constructor(previous: RenderOutput<AnyComponent>, next: RenderOutput<AnyComponent>) {
+    this.previousKeys = invert(indexTree(previous.components));
+    this.nextKeys = invert(indexTree(next.components));
+  }
+
+  diffList(
+    parent: string | null,
+    field: string,
+    before: RenderResult<AnyComponent>[],
+    after: RenderResult<AnyComponent>[]
+  ): void {
+    const beforeKeys = before.map(result => this.previousKeys.get(result)!);
+    const afterKeys = after.map(result => this.nextKeys.get(result)!);
+    const beforeByKey = new Map(beforeKeys.map((key, index) => [key, before[index]]));
+    const afterSet = new Set(afterKeys);
+
+    // 1. Removals
+    const kept = beforeKeys.filter(key => afterSet.has(key));
+    for (const key of beforeKeys) {
+      if (!afterSet.has(key)) this.removals.push({ op: 'remove', parent, field, key });
+    }
+
+    // 2. Inserts and moves, from the end so every anchor is already in place.
+    // Kept components on the longest run already in order do not move.
+    const keptPosition = new Map(kept.map((key, index) => [key, index]));
+    const keptInNewOrder = afterKeys.filter(key => keptPosition.has(key));
+    const stableIndices = longestIncreasing(keptInNewOrder.map(key => keptPosition.get(key)!));
+    const stable = new Set(keptInNewOrder.filter((_, index) => stableIndices.has(index)));
+
+    for (let index = afterKeys.length - 1; index >= 0; index--) {
+      const key = afterKeys[index];
+      const anchor = afterKeys[index + 1] ?? null;
+      if (!beforeByKey.has(key)) {
+        this.changes.push({ op: 'insert', parent, field, key, before: anchor, result: after[index] });
+      } else if (!stable.has(key)) {
+        this.changes.push({ op: 'move', parent, field, key, before: anchor });
+      }
+    }
+
+    // 3. Updates of kept components, then their children
+    after.forEach((next, index) => {
+      const previous = beforeByKey.get(afterKeys[index]);
+      if (previous) this.diffNode(afterKeys[index], previous, next);
+    });
+  }
+
+  private diffNode(key: string, previous: RenderResult<AnyComponent>, next: RenderResult<AnyComponent>): void {
+    if (previous.isValid !== next.isValid ||
+        (previous.isValid && next.isValid && previous.component.type !== next.component.type)) {
+      this.changes.push({ op: 'replace', key, result: next });
+      return;
+    }
+
+    // Child lists: fields holding results on both sides
+    const children = new Map<string, { before: ResultList; after: ResultList }>();
+    if (previous.isValid && next.isValid && isRecord(previous.component) && isRecord(next.component)) {
+      const before = previous.component;
+      const after = next.component;
+      for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        const [beforeList, afterList] = [before[field], after[field]];
+        if (isResultList(beforeList) && isResultList(afterList)) {
+          children.set(field, { before: beforeList, after: afterList });
+        }
+      }
+    }
+
+    const childFields = [...children.keys()];
+    const changes = diffProps(propsOf(previous, childFields), propsOf(next, childFields));
+    const moved = previous.isValid && next.isValid && previous.path !== next.path;
+    if (changes || moved) {
+      const update: ScreenPatch = { op: 'update', key, ...(changes ?? { set: {}, unset: [] }) };
+      if (moved) update.path = next.path;
+      this.changes.push(update);
+    }
+
+    for (const [field, lists] of children) {
+      this.diffList(key, field, lists.before, lists.after);
+    }
+  }
+}
+
+function invert(index: Map<string, IndexedNode>): Map<RenderResult<AnyComponent>, string> {
+  return new Map(Array.from(index, ([key, node]) => [node.result, key]));
+}
+
+/**
+ * Patch list turning previous into next
+ */
+export function diffScreens(
+  previous: RenderOutput<AnyComponent>,
+  next: RenderOutput<AnyComponent>
+): ScreenPatch[] {
+  const differ = new ScreenDiffer(previous, next);
+  differ.diffList(null, 'components', previous.components, next.components);
+
+  const root = diffProps(
+    { screen: previous.screen, errors: previous.errors, downgrades: previous.downgrades },
+    { screen: next.screen, errors: next.errors, downgrades: next.downgrades }
+  );
+  const rootUpdate: ScreenPatch[] = root ? [{ op: 'update', key: null, ...root }] : [];
+  return [...rootUpdate, ...differ.removals, ...differ.changes];
+}
+
+// ============================================
+// Apply
+// ============================================
+
+/**
+ * Apply a patch from diffScreens to the output it was computed from.
+ * Returns a new output; previous is not modified. Throws if the patch
+ * does not fit (it was computed against a different output).
+ */
+export function applyPatch<TComponent extends AnyComponent>(
+  previous: RenderOutput<TComponent>,
+  patch: ScreenPatch[]
+): RenderOutput<TComponent> {
+  const output: RenderOutput<AnyComponent> = structuredClone(previous);
+  const index = indexTree(output.components);
+
+  const lookup = (key: string): IndexedNode => {
+    const node = index.get(key);
+    if (!node) throw new Error(`Patch refers to unknown component "${key}"`);
+    return node;
+  };
+
+  const listOf = (parent: string | null, field: string): RenderResult<AnyComponent>[] => {
+    if (parent === null) return output.components;
+    const node = lookup(parent);
+    if (!node.result.isValid) throw new Error(`Component "${parent}" has no children`);
+    const component = node.result.component as unknown as Record<string, unknown>;
+    if (!Array.isArray(component[field])) component[field] = [];
+    return component[field] as RenderResult<AnyComponent>[];
+  };
+
+  const position = (list: RenderResult<AnyComponent>[], key: string | null): number => {
+    if (key === null) return list.length;
+    const at = list.indexOf(lookup(key).result);
+    if (at === -1) throw new Error(`Anchor "${key}" is not in the target list`);
+    return at;
+  };
+
+  // Register a (sub)tree added by insert or replace under the keys the diff used
+  const register = (key: string, result: RenderResult<AnyComponent>, list: RenderResult<AnyComponent>[]) => {
+    index.set(key, { result, list });
+    for (const [childKey, node] of indexTree([result])) {
+      if (node.result !== result) index.set(childKey, node);
+    }
+  };
+
+  for (const entry of patch) {
+    switch (entry.op) {
+      case 'remove': {
+        const list = listOf(entry.parent, entry.field);
+        list.splice(position(list, entry.key), 1);
+        index.delete(entry.key);
+        break;
+      }
+      case 'insert': {
+        const list = listOf(entry.parent, entry.field);
+        const result = structuredClone(entry.result);
+        list.splice(position(list, entry.before), 0, result);
+        register(entry.key, result, list);
+        break;
+      }
+      case 'move': {
+        const list = listOf(entry.parent, entry.field);
+        const node = lookup(entry.key);
+        list.splice(list.indexOf(node.result), 1);
+        list.splice(position(list, entry.before), 0, node.result);
+        break;
+      }
+      case 'replace': {
+        const node = lookup(entry.key);
+        const result = structuredClone(entry.result);
+        node.list.splice(node.list.indexOf(node.result), 1, result);
+        register(entry.key, result, node.list);
+        break;
+      }
+      case 'update': {
+        let target = output as unknown as Record<string, unknown>;
+        if (entry.key !== null) {
+          const result = lookup(entry.key).result;
+          if (entry.path !== undefined) result.path = entry.path;
+          target = (result.isValid ? result.component : result) as unknown as Record<string, unknown>;
+        }
+        Object.assign(target, structuredClone(entry.set));
+        for (const field of entry.unset) delete target[field];
+        break;
+      }
+    }
+  }
+
+  return output as RenderOutput<TComponent>;
+}
@@ -0,0 +1,154 @@
+/**
+ * Screen Linting
+ *
+ * Checks a RenderOutput for accessibility and layout problems the renderer
+ * accepts but a screen author probably did not intend:
+ *
+ * const warnings = lintScreen(renderer.render(config), { disabled: ['metric-unit'] });
+ * // [{ rule: 'chart-title', path: 'components[2]', message: 'Line chart has no title' }]
+ *
+ * Rules:
+ * - chart-title:      charts without a title
+ * - chart-alt:        charts without alt text for screen readers
+ * - metric-unit:      numeric metrics without a unit
+ * - grid-columns:     grids with more columns than items
+ * - max-nesting:      components nested deeper than maxNesting (default 3)
+ * - duplicate-id:     an id used by more than one component
+ * - header-hierarchy: more than one large header, or a header skipping a level
+ *                     (large → small) relative to the header before it
+ *
+ * Only valid components are checked; render errors are already in output.errors.
+ */
+
+import { nestedResults, type AnyComponent, type RenderOutput, type RenderResult } from './problem2';
+
+// ============================================
+// Types
+// ============================================
+
+export type LintRuleId =
+  | 'chart-title'
+  | 'chart-alt'
+  | 'metric-unit'
+  | 'grid-columns'
+  | 'max-nesting'
+  | 'duplicate-id'
+  | 'header-hierarchy';
+
+export interface LintWarning {
+  rule: LintRuleId;
+  path: string; // Path of the offending component, as in RenderResult.path
+  message: string;
+}
+
+export interface LintOptions {
+  disabled?: LintRuleId[]; // Rules to skip
+  maxNesting?: number; // Deepest allowed component; top-level components are depth 1 (default 3)
+}
+
+const DEFAULT_MAX_NESTING = 3;
+
+const HEADER_LEVELS: Record<string, number> = { large: 1, medium: 2, small: 3 };
+
+// ============================================
+// Linting
+// ============================================
+
+/**
+ * Lint a rendered screen. Warnings are in document order.
+ */
+export function lintScreen(output: RenderOutput<AnyComponent>, options: LintOptions = {}): LintWarning[] {
+  const disabled = new Set(options.disabled ?? []);
+  const maxNesting = options.maxNesting ?? DEFAULT_MAX_NESTING;
+  const warnings: LintWarning[] = [];
+  const firstPathById = new Map<string, string>();
+  let previousHeaderLevel: number | null = null;
+  let firstLargeHeader: string | null = null;
+
+  const warn = (rule: LintRuleId, path: string, message: string): void => {
+    if (!disabled.has(rule)) {
+      warnings.push({ rule, path, message });
+    }
+  };
+
+  const visit = (results: RenderResult<AnyComponent>[], depth: number): void => {
+    for (const result of results) {
+      if (!result.isValid) continue;
+      const component = result.component as AnyComponent & Record<string, any>;
+      const { path } = result;
+
+      if (depth === maxNesting + 1) {
+        // Once per branch: anything deeper is already covered by this warning
+        warn('max-nesting', path, `Component is nested ${depth} levels deep (maximum ${maxNesting})`);
+      }
+
+      if (typeof component.id === 'string') {
+        const first = firstPathById.get(component.id);
+        if (first === undefined) {
+          firstPathById.set(component.id, path);
+        } else {
+          warn('duplicate-id', path, `Duplicate id "${component.id}" (first used at ${first})`);
+        }
+      }
+
+      switch (component.type) {
+        case 'chart': {
+          const name = `${capitalize(String(component.chartType))} chart`;
+          if (!hasText(component.title)) {
+            warn('chart-title', path, `${name} has no title`);
+          }
+          if (!hasText(component.alt)) {
+            warn('chart-alt', path, `${name} has no alt text`);
+          }
+          break;
+        }
+        case 'metric':
+          if (typeof component.value === 'number' && !hasText(component.unit)) {
+            warn('metric-unit', path, `Metric "${component.label}" has no unit`);
+          }
+          break;
+        case 'grid':
+          if (Array.isArray(component.items) && component.columns > component.items.length) {
+            warn('grid-columns', path,
+              `Grid has ${component.columns} columns but only ${component.items.length} items`);
+          }
+          break;
+        case 'header': {
+          const level = HEADER_LEVELS[component.style] ?? HEADER_LEVELS.medium;
+          if (level === 1) {
+            if (firstLargeHeader === null) {
+              firstLargeHeader = path;
+            } else {
+              warn('header-hierarchy', path, `More than one large header (first at ${firstLargeHeader})`);
+            }
+          }
+          if (previousHeaderLevel !== null && level > previousHeaderLevel + 1) {
+            warn('header-hierarchy', path,
+              `Header "${component.text}" skips a level (${component.style} after ${styleOf(previousHeaderLevel)})`);
+          }
+          previousHeaderLevel = level;
+          break;
+        }
+      }
+
+      for (const nested of nestedResults(result)) {
+        visit(nested.results, depth + 1);
+      }
+    }
+  };
+
+  visit(output.components, 1);
+  return warnings;
+}
+
+function hasText(value: unknown): boolean {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function styleOf(level: number): string {
+  return Object.keys(HEADER_LEVELS).find(style => HEADER_LEVELS[style] === level) ?? 'medium';
+}
@@ -0,0 +1,462 @@
+/**
+ * Screen Preview
+ *
+ * Output backends for RenderOutput, so a server-driven screen can be looked at
+ * without the mobile app:
+ * - renderHtml: a static HTML page (inline SVG charts, CSS grid layout)
+ * - renderTerminal: an ANSI terminal view (sparklines and bar charts)
+ *
+ * const output = new ComponentRenderer().render(config);
+ * fs.writeFileSync('preview.html', renderHtml(output));
+ * console.log(renderTerminal(output, { width: process.stdout.columns }));
+ *
+ * Custom component types render as their JSON unless a renderer is passed
+ * for them in options.components.
+ *
+ * The renderer does not type-check optional fields (id, title, unit) or chart
+ * data items, so both backends stringify the former and read the latter as
+ * numbers (anything non-numeric is drawn as 0).
+ */
+
+import type {
+  AnyComponent,
+  ChartComponent,
+  GridComponent,
+  HeaderComponent,
+  ListComponent,
+  MetricComponent,
+  RenderOutput,
+  RenderResult
+} from './problem2';
+
+// Renders one custom component; renderChild renders nested results with the same backend
+export type ComponentPreview = (
+  component: AnyComponent,
+  renderChild: (child: RenderResult<AnyComponent>) => string
+) => string;
+
+// ============================================
+// HTML
+// ============================================
+
+export interface HtmlOptions {
+  fragment?: boolean; // Only the <main> element, without the surrounding document (default: false)
+  showErrors?: boolean; // List RenderOutput.errors below the screen (default: true)
+  components?: Record<string, ComponentPreview>; // HTML for custom component types
+}
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 8;
+const CHART_COLORS = ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7'];
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; margin: 0; padding: 16px; background: #f6f7f9; color: #1a1c1f; }
+  .screen { display: flex; flex-direction: column; gap: 12px; max-width: 960px; }
+  .metric { display: flex; justify-content: space-between; padding: 8px 12px; }
+  .metric, .chart { background: #fff; border-radius: 6px; }
+  .metric-value { font-weight: 600; }
+  .metric-unit { margin-left: 2px; color: #6b7280; }
+  .chart { margin: 0; padding: 8px; }
+  .chart svg { width: 100%; height: auto; }
+  .chart figcaption { font-size: 14px; color: #4b5563; }
+  .grid { display: grid; gap: 12px; }
+  .list { display: flex; gap: 8px; margin: 0; padding: 0; list-style: none; }
+  .list-vertical { flex-direction: column; }
+  .list-horizontal { flex-direction: row; }
+  .placeholder { padding: 8px 12px; border: 1px dashed #d1d5db; border-radius: 6px; color: #6b7280; }
+  .placeholder-error { border-color: #e15759; color: #b91c1c; }
+  .component pre { margin: 0; font-size: 12px; }
+  .errors { color: #b91c1c; }
+`;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Coordinates rounded to keep the SVG readable
+function coord(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+function idAttribute(component: AnyComponent): string {
+  return component.id !== undefined ? ` id="${escapeHtml(String(component.id))}"` : '';
+}
+
+// Chart data as numbers (items are not checked by the renderer)
+function chartValues(chart: ChartComponent): number[] {
+  return chart.data.map(value => {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : 0;
+  });
+}
+
+function lineSvg(values: number[]): string {
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const innerWidth = CHART_WIDTH - 2 * CHART_PADDING;
+  const innerHeight = CHART_HEIGHT - 2 * CHART_PADDING;
+
+  const points = values.map((value, index) => {
+    const x = values.length === 1 ? CHART_WIDTH / 2 : CHART_PADDING + (index * innerWidth) / (values.length - 1);
+    const y = CHART_HEIGHT - CHART_PADDING - ((value - min) / range) * innerHeight;
+    return `${coord(x)},${coord(y)}`;
+  });
+
+  return `<polyline fill="none" stroke="${CHART_COLORS[0]}" stroke-width="2" points="${points.join(' ')}" />`;
+}
+
+function barSvg(values: number[]): string {
+  // Bars grow from zero, so the domain always includes it
+  const low = Math.min(0, ...values);
+  const range = Math.max(0, ...values) - low || 1;
+  const innerHeight = CHART_HEIGHT - 2 * CHART_PADDING;
+  const slot = (CHART_WIDTH - 2 * CHART_PADDING) / values.length;
+  const toY = (value: number) => CHART_HEIGHT - CHART_PADDING - ((value - low) / range) * innerHeight;
+  const zeroY = toY(0);
+
+  return values
+    .map((value, index) => {
+      const y = Math.min(toY(value), zeroY);
+      const height = Math.abs(toY(value) - zeroY);
+      const x = CHART_PADDING + index * slot + 1;
+      return `<rect x="${coord(x)}" y="${coord(y)}" width="${coord(Math.max(slot - 2, 1))}" ` +
+        `height="${coord(height)}" fill="${CHART_COLORS[0]}" />`;
+    })
+    .join('');
+}
+
+function pieSvg(values: number[]): string {
+  const cx = CHART_WIDTH / 2;
+  const cy = CHART_HEIGHT / 2;
+  const radius = CHART_HEIGHT / 2 - CHART_PADDING;
+  // Only positive values make slices
+  const slices = values.map((value, index) => ({ value, color: CHART_COLORS[index % CHART_COLORS.length] }))
+    .filter(slice => slice.value > 0);
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+
+  if (slices.length === 0) {
+    return `<circle cx="${cx}" cy="${cy}" r="${radius}" fill="none" stroke="#d1d5db" />`;
+  }
+  if (slices.length === 1) {
+    return `<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${slices[0].color}" />`;
+  }
+
+  let angle = -Math.PI / 2; // Start at 12 o'clock
+  return slices
+    .map(slice => {
+      const sweep = (slice.value / total) * 2 * Math.PI;
+      const start = { x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) };
+      angle += sweep;
+      const end = { x: cx + radius * Math.cos(angle), y: cy + radius * Math.sin(angle) };
+      const largeArc = sweep > Math.PI ? 1 : 0;
+      return `<path d="M ${cx} ${cy} L ${coord(start.x)} ${coord(start.y)} ` +
+        `A ${radius} ${radius} 0 ${largeArc} 1 ${coord(end.x)} ${coord(end.y)} Z" fill="${slice.color}" />`;
+    })
+    .join('');
+}
+
+function htmlChart(chart: ChartComponent): string {
+  const values = chartValues(chart);
+  const shapes = chart.chartType === 'pie' ? pieSvg(values) :
+    chart.chartType === 'bar' ? barSvg(values) : lineSvg(values);
+  const title = chart.title !== undefined ? String(chart.title) : undefined;
+  const label = escapeHtml(chart.alt ?? title ?? `${chart.chartType} chart`);
+  const caption = title !== undefined ? `<figcaption>${escapeHtml(title)}</figcaption>` : '';
+
+  return `<figure class="chart chart-${chart.chartType}"${idAttribute(chart)}>` +
+    `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img" aria-label="${label}">${shapes}</svg>` +
+    `${caption}</figure>`;
+}
+
+function htmlResult(result: RenderResult<AnyComponent>, options: HtmlOptions): string {
+  if (!result.isValid) {
+    const path = escapeHtml(result.path);
+    if ('status' in result && result.status === 'loading') {
+      return `<div class="placeholder placeholder-loading" data-path="${path}">Loading…</div>`;
+    }
+    const error = escapeHtml(result.error ?? '');
+    return `<div class="placeholder placeholder-error" data-path="${path}">${error}</div>`;
+  }
+
+  const component = result.component;
+  const renderChild = (child: RenderResult<AnyComponent>) => htmlResult(child, options);
+
+  switch (component.type) {
+    case 'header': {
+      const header = component as HeaderComponent;
+      const level = header.style === 'large' ? 1 : header.style === 'small' ? 3 : 2;
+      return `<h${level}${idAttribute(header)}>${escapeHtml(header.text)}</h${level}>`;
+    }
+    case 'metric': {
+      const metric = component as MetricComponent;
+      const unit = metric.unit ? `<span class="metric-unit">${escapeHtml(String(metric.unit))}</span>` : '';
+      return `<div class="metric"${idAttribute(metric)}>` +
+        `<span class="metric-label">${escapeHtml(metric.label)}</span>` +
+        `<span class="metric-value">${escapeHtml(String(metric.value))}${unit}</span></div>`;
+    }
+    case 'chart':
+      return htmlChart(component as ChartComponent);
+    case 'grid': {
+      const grid = component as GridComponent<AnyComponent>;
+      const columns = `grid-template-columns: repeat(${grid.columns}, minmax(0, 1fr))`;
+      const items = grid.items.map(renderChild).join('');
+      return `<div class="grid"${idAttribute(grid)} style="${columns}">${items}</div>`;
+    }
+    case 'list': {
+      const list = component as ListComponent<AnyComponent>;
+      const items = list.items.map(item => `<li>${renderChild(item)}</li>`).join('');
+      return `<ul class="list list-${list.orientation ?? 'vertical'}"${idAttribute(list)}>${items}</ul>`;
+    }
+    default: {
+      const preview = options.components?.[component.type];
+      if (preview) {
+        return preview(component, renderChild);
+      }
+      return `<div class="component" data-type="${escapeHtml(component.type)}"${idAttribute(component)}>` +
+        `<pre>${escapeHtml(JSON.stringify(component, null, 2))}</pre></div>`;
+    }
+  }
+}
+
+/**
+ * Render a screen as static HTML
+ */
+export function renderHtml(output: RenderOutput<AnyComponent>, options: HtmlOptions = {}): string {
+  const body = output.components.map(result => htmlResult(result, options)).join('\n');
+  const errors = options.showErrors !== false && output.errors.length > 0
+    ? `\n<section class="errors"><h2>Errors</h2><ul>` +
+      output.errors.map(error => `<li>${escapeHtml(error)}</li>`).join('') + `</ul></section>`
+    : '';
+  const main = `<main class="screen" data-screen="${escapeHtml(output.screen)}">\n${body}${errors}\n</main>`;
+
+  if (options.fragment) {
+    return main;
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(output.screen)}</title>`,
+    `<style>${HTML_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    main,
+    '</body>',
+    '</html>'
+  ].join('\n');
+}
+
+// ============================================
+// Terminal
+// ============================================
+
+export interface TerminalOptions {
+  width?: number; // Columns available (default: 80)
+  color?: boolean; // Emit ANSI escape codes (default: true)
+  showErrors?: boolean; // List RenderOutput.errors below the screen (default: true)
+  components?: Record<string, ComponentPreview>; // Lines for custom component types
+}
+
+const ANSI = {
+  reset: '\x1b[0m',
+  bold: '\x1b[1m',
+  dim: '\x1b[2m',
+  underline: '\x1b[4m',
+  red: '\x1b[31m',
+  yellow: '\x1b[33m',
+  cyan: '\x1b[36m'
+};
+
+const SPARK_BLOCKS = '▁▂▃▄▅▆▇█';
+const ANSI_PATTERN = /\x1b\[[0-9;]*m/g;
+
+type Style = keyof typeof ANSI;
+
+interface TerminalContext {
+  width: number;
+  color: boolean;
+  options: TerminalOptions;
+}
+
+function paint(text: string, styles: Style[], context: TerminalContext): string {
+  if (!context.color || styles.length === 0) return text;
+  return styles.map(style => ANSI[style]).join('') + text + ANSI.reset;
+}
+
+// Length of a line as displayed (escape codes take no space)
+export function visibleLength(line: string): number {
+  return Array.from(line.replace(ANSI_PATTERN, '')).length;
+}
+
+// Truncate (with an ellipsis) or pad a line to exactly width visible characters
+function fit(line: string, width: number): string {
+  const length = visibleLength(line);
+  if (length <= width) {
+    return line + ' '.repeat(width - length);
+  }
+
+  let result = '';
+  let visible = 0;
+  for (const token of line.split(/(\x1b\[[0-9;]*m)/)) {
+    if (token.startsWith('\x1b[')) {
+      result += token;
+      continue;
+    }
+    for (const char of token) {
+      if (visible === width - 1) break;
+      result += char;
+      visible++;
+    }
+  }
+  return result + '…' + (line.includes('\x1b[') ? ANSI.reset : '');
+}
+
+// Evenly spaced subset of at most count values
+function sample(values: number[], count: number): number[] {
+  if (values.length <= count) return values;
+  return Array.from({ length: count }, (_, index) => values[Math.floor((index * values.length) / count)]);
+}
+
+function formatNumber(value: unknown): string {
+  const number = Number(value);
+  return Number.isInteger(number) ? String(number) : number.toFixed(2);
+}
+
+function terminalChart(chart: ChartComponent, context: TerminalContext): string[] {
+  const lines = chart.title !== undefined ? [paint(String(chart.title), ['bold'], context)] : [];
+  const data = chartValues(chart);
+
+  if (chart.chartType === 'line') {
+    const values = sample(data, Math.max(context.width, 1));
+    const min = Math.min(...values);
+    const range = Math.max(...values) - min || 1;
+    const spark = values
+      .map(value => SPARK_BLOCKS[Math.round(((value - min) / range) * (SPARK_BLOCKS.length - 1))])
+      .join('');
+    lines.push(paint(spark, ['cyan'], context));
+    const extent = `min ${formatNumber(Math.min(...data))}  max ${formatNumber(Math.max(...data))}`;
+    lines.push(paint(extent, ['dim'], context));
+    return lines;
+  }
+
+  // Bar and pie charts: one row per data point
+  const total = data.reduce((sum, value) => sum + Math.max(value, 0), 0);
+  const labels = data.map(value =>
+    chart.chartType === 'pie'
+      ? `${total > 0 ? ((Math.max(value, 0) / total) * 100).toFixed(1) : '0.0'}%`
+      : formatNumber(value)
+  );
+  const prefixWidth = String(data.length).length + 2;
+  const labelWidth = Math.max(...labels.map(label => label.length));
+  const barWidth = Math.max(context.width - prefixWidth - labelWidth - 2, 1);
+  const scaleMax = chart.chartType === 'pie' ? total : Math.max(...data.map(Math.abs));
+
+  data.forEach((value, index) => {
+    const magnitude = chart.chartType === 'pie' ? Math.max(value, 0) : Math.abs(value);
+    const length = scaleMax > 0 ? Math.round((magnitude / scaleMax) * barWidth) : 0;
+    const prefix = `#${index + 1}`.padEnd(prefixWidth);
+    const bar = paint('█'.repeat(length), ['cyan'], context);
+    lines.push(`${paint(prefix, ['dim'], context)}${bar} ${labels[index]}`);
+  });
+  return lines;
+}
+
+// Lay children out side by side in columns of equal width
+function terminalColumns(
+  children: RenderResult<AnyComponent>[],
+  columns: number,
+  context: TerminalContext
+): string[] {
+  const gap = 2;
+  const columnWidth = Math.max(Math.floor((context.width - gap * (columns - 1)) / columns), 1);
+  const childContext = { ...context, width: columnWidth };
+  const lines: string[] = [];
+
+  for (let start = 0; start < children.length; start += columns) {
+    const row = children.slice(start, start + columns).map(child => terminalResult(child, childContext));
+    const height = Math.max(...row.map(cell => cell.length));
+    for (let line = 0; line < height; line++) {
+      lines.push(row.map(cell => fit(cell[line] ?? '', columnWidth)).join(' '.repeat(gap)).trimEnd());
+    }
+    if (start + columns < children.length) lines.push('');
+  }
+  return lines;
+}
+
+function terminalResult(result: RenderResult<AnyComponent>, context: TerminalContext): string[] {
+  if (!result.isValid) {
+    if ('status' in result && result.status === 'loading') {
+      return [paint(`… loading ${result.type}`, ['dim'], context)];
+    }
+    return [paint(`✗ ${result.type}: ${result.error ?? ''}`, ['red'], context)];
+  }
+
+  const component = result.component;
+
+  switch (component.type) {
+    case 'header': {
+      const header = component as HeaderComponent;
+      if (header.style === 'large') {
+        const rule = '═'.repeat(Math.min(visibleLength(header.text), context.width));
+        return [paint(header.text.toUpperCase(), ['bold'], context), rule];
+      }
+      return [paint(header.text, header.style === 'small' ? ['underline'] : ['bold'], context)];
+    }
+    case 'metric': {
+      const metric = component as MetricComponent;
+      const value = `${metric.value}${metric.unit ? ` ${metric.unit}` : ''}`;
+      return [`${metric.label}: ${paint(value, ['bold', 'cyan'], context)}`];
+    }
+    case 'chart':
+      return terminalChart(component as ChartComponent, context);
+    case 'grid': {
+      const grid = component as GridComponent<AnyComponent>;
+      return terminalColumns(grid.items, grid.columns, context);
+    }
+    case 'list': {
+      const list = component as ListComponent<AnyComponent>;
+      if (list.orientation === 'horizontal') {
+        return terminalColumns(list.items, Math.max(list.items.length, 1), context);
+      }
+      const itemContext = { ...context, width: Math.max(context.width - 2, 1) };
+      return list.items.flatMap(item =>
+        terminalResult(item, itemContext).map((line, index) => (index === 0 ? '• ' : '  ') + line)
+      );
+    }
+    default: {
+      const preview = context.options.components?.[component.type];
+      if (preview) {
+        return preview(component, child => terminalResult(child, context).join('\n')).split('\n');
+      }
+      return [paint(`[${component.type}]`, ['dim'], context) + ' ' + JSON.stringify(component)];
+    }
+  }
+}
+
+/**
+ * Render a screen for an ANSI terminal
+ */
+export function renderTerminal(output: RenderOutput<AnyComponent>, options: TerminalOptions = {}): string {
+  const context: TerminalContext = { width: options.width ?? 80, color: options.color ?? true, options };
+
+  const lines = [paint(`▌ ${output.screen}`, ['bold'], context), ''];
+  for (const result of output.components) {
+    lines.push(...terminalResult(result, context).map(line => fit(line, context.width).trimEnd()), '');
+  }
+
+  if (options.showErrors !== false && output.errors.length > 0) {
+    lines.push(paint(`${output.errors.length} error(s):`, ['yellow'], context));
+    lines.push(...output.errors.map(error => paint(`  - ${error}`, ['yellow'], context)));
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
@@ -0,0 +1,265 @@
+/**
+ * HTTP Transports
+ *
+ * ApiClient (problem3.ts) sends every request through a Transport, so the
+ * same client runs against a real backend, a local stand-in server, or an
+ * in-memory route table in tests:
+ *
+ * new ApiClient({ baseUrl: 'https://api.example.com', transport: new FetchTransport() });
+ * new ApiClient({ baseUrl: 'http://localhost:8080', transport: new NodeHttpTransport() });
+ * new ApiClient({ baseUrl: 'https://api.test', transport: new MemoryTransport({
+ *   'GET /experiments/:id': ({ params }) => ({ body: { id: params.id, ... } })
+ * }) });
+ *
+ * Transports only move requests and responses: a 404 or 500 is a response,
+ * not an error. They reject only when no response was received, including
+ * when the request's signal aborts (ApiClient uses it for timeouts and
+ * cancellation).
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+
+// ============================================
+// Transport Interface
+// ============================================
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface TransportRequest {
+  method: HttpMethod;
+  url: string; // Absolute URL, query string included
+  headers: Record<string, string>; // Names in lower case
+  body?: string | Uint8Array; // Already encoded; headers carry its content-type
+  signal?: AbortSignal; // Aborts the request: send rejects with signal.reason
+}
+
+export interface TransportResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>; // Names in lower case
+  body: string;
+}
+
+export interface Transport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Settle with the work, or reject with the signal's reason as soon as it
+ * aborts (for transports wrapping work that cannot be cancelled itself)
+ */
+export function withAbort<T>(work: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return work;
+  if (signal.aborted) {
+    work.catch(() => undefined); // Its outcome no longer matters
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    work.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// ============================================
+// Fetch
+// ============================================
+
+/**
+ * Sends requests with the global fetch (browsers, React Native, Node 18+),
+ * or with the fetch implementation passed in
+ */
+export class FetchTransport implements Transport {
+  constructor(private fetchImpl: typeof fetch = globalThis.fetch) {}
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    // Called unbound: some fetch implementations reject any other "this"
+    const fetchImpl = this.fetchImpl;
+    const response = await fetchImpl(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal
+    });
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name.toLowerCase()] = value;
+    });
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: await response.text()
+    };
+  }
+}
+
+// ============================================
+// Node http
+// ============================================
+
+/**
+ * Sends requests with Node's http and https modules (no fetch needed)
+ */
+export class NodeHttpTransport implements Transport {
+  send(request: TransportRequest): Promise<TransportResponse> {
+    return new Promise((resolve, reject) => {
+      const url = new URL(request.url);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        reject(new Error(`Unsupported protocol: ${url.protocol}`));
+        return;
+      }
+
+      const headers = { ...request.headers };
+      if (request.body !== undefined) {
+        headers['content-length'] ??= String(Buffer.byteLength(request.body));
+      }
+
+      const client = url.protocol === 'https:' ? https : http;
+      const options = { method: request.method, headers, signal: request.signal };
+      const outgoing = client.request(url, options, incoming => {
+        const chunks: Buffer[] = [];
+        incoming.on('data', (chunk: Buffer) => chunks.push(chunk));
+        incoming.on('error', reject);
+        incoming.on('end', () => {
+          const headers: Record<string, string> = {};
+          for (const [name, value] of Object.entries(incoming.headers)) {
+            if (value !== undefined) headers[name] = Array.isArray(value) ? value.join(', ') : value;
+          }
+          resolve({
+            status: incoming.statusCode ?? 0,
+            statusText: incoming.statusMessage ?? '',
+            headers,
+            body: Buffer.concat(chunks).toString('utf8')
+          });
+        });
+      });
+
+      outgoing.on('error', reject);
+      outgoing.end(request.body);
+    });
+  }
+}
+
+// ============================================
+// In-Memory Routes
+// ============================================
+
+// A request as seen by a route handler
+export interface MemoryRequest extends TransportRequest {
+  path: string;
+  params: Record<string, string>; // Values of ":name" segments in the route pattern
+  query: Record<string, string>;
+  text: string; // Body decoded as UTF-8 ("" without a body)
+}
+
+export interface MemoryResponse {
+  status?: number; // Default 200
+  headers?: Record<string, string>;
+  body?: unknown; // Strings are sent as-is, anything else as JSON
+}
+
+// A fixed response, or a handler computing one (a handler that throws simulates a network failure)
+export type MemoryRoute = MemoryResponse | ((request: MemoryRequest) => MemoryResponse | Promise<MemoryResponse>);
+
+interface CompiledRoute {
+  method: string;
+  segments: string[];
+  route: MemoryRoute;
+}
+
+/**
+ * Answers requests from a route table, keyed by "METHOD /path" with ":name"
+ * segments matching any single path segment. Patterns match the whole URL
+ * path; unmatched requests get a 404. Every request is kept in "requests".
+ *
+ * const transport = new MemoryTransport({ 'GET /experiments': { body: { experiments: [], total: 0 } } });
+ * transport.on('GET /experiments/:id', ({ params }) => ({ status: 404, body: { error: `No ${params.id}` } }));
+ */
+export class MemoryTransport implements Transport {
+  readonly requests: TransportRequest[] = [];
+  private routes: CompiledRoute[] = [];
+
+  constructor(routes: Record<string, MemoryRoute> = {}) {
+    for (const [pattern, route] of Object.entries(routes)) {
+      this.on(pattern, route);
+    }
+  }
+
+  /**
+   * Add a route (later routes are tried after earlier ones)
+   */
+  on(pattern: string, route: MemoryRoute): this {
+    const match = /^([A-Z]+)\s+(\/\S*)$/.exec(pattern.trim());
+    if (!match) {
+      throw new Error(`Invalid route pattern "${pattern}" (expected "METHOD /path")`);
+    }
+    this.routes.push({ method: match[1], segments: splitPath(match[2]), route });
+    return this;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    this.requests.push(request);
+    request.signal?.throwIfAborted();
+
+    const url = new URL(request.url);
+    const segments = splitPath(url.pathname);
+    for (const candidate of this.routes) {
+      const params = candidate.method === request.method ? matchSegments(candidate.segments, segments) : null;
+      if (params === null) continue;
+
+      const response = typeof candidate.route === 'function'
+        ? await withAbort(Promise.resolve(candidate.route({
+          ...request,
+          path: url.pathname,
+          params,
+          query: Object.fromEntries(url.searchParams),
+          text: typeof request.body === 'string' ? request.body : new TextDecoder().decode(request.body)
+        })), request.signal)
+        : candidate.route;
+      return toTransportResponse(response);
+    }
+
+    return toTransportResponse({ status: 404, body: { error: `No route for ${request.method} ${url.pathname}` } });
+  }
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(segment => segment !== '');
+}
+
+function matchSegments(pattern: string[], segments: string[]): Record<string, string> | null {
+  if (pattern.length !== segments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(':')) {
+      params[pattern[i].slice(1)] = decodeURIComponent(segments[i]);
+    } else if (pattern[i] !== segments[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+function toTransportResponse(response: MemoryResponse): TransportResponse {
+  const status = response.status ?? 200;
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(response.headers ?? {})) {
+    headers[name.toLowerCase()] = value;
+  }
+
+  let body = '';
+  if (typeof response.body === 'string') {
+    body = response.body;
+  } else if (response.body !== undefined) {
+    body = JSON.stringify(response.body);
+    headers['content-type'] ??= 'application/json';
+  }
+
+  return { status, statusText: http.STATUS_CODES[status] ?? '', headers, body };
+}
@@ -0,0 +1,493 @@
+import { describe, test, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import {
+  csvAdapter,
+  parseMetrics,
+  parseMetricStream,
+  parseMetricsWith,
+  prometheusAdapter,
+  type ParsePolicyInput
+} from '../src/problems/problem1';
+import { ComponentRenderer } from '../src/problems/problem2';
+import { evaluateExpression, parseExpression, renderTemplate } from '../src/problems/expressions';
+import { applyPatch, diffScreens } from '../src/problems/screenDiff';
+import { renderHtml, renderTerminal } from '../src/problems/screenPreview';
+import { ApiClient } from '../src/problems/problem3';
+import {
+  validateAndMigrateDashboard,
+  validateDashboardConfig,
+  validateMetric,
+  validateMetrics
+} from '../src/problems/problem4';
+import { TransformPipeline, transformers, type RawMetric } from '../src/problems/problem5';
+
+/**
+ * Property-based fuzz suite.
+ *
+ * Every property runs FUZZ_RUNS times with seeds FUZZ_SEED, FUZZ_SEED + 1, ...
+ * A failure reports its seed; replay it alone with:
+ *   FUZZ_SEED=<seed> FUZZ_RUNS=1 npx jest tests/fuzz.test.ts
+ */
+const BASE_SEED = Number(process.env.FUZZ_SEED ?? 20251027);
+const RUNS = Number(process.env.FUZZ_RUNS ?? 150);
+
+// ============================================
+// Seeded Generators
+// ============================================
+
+interface Random {
+  next(): number; // [0, 1)
+  int(min: number, max: number): number; // Inclusive
+  bool(probability?: number): boolean;
+  pick<T>(items: readonly T[]): T;
+}
+
+// mulberry32: tiny, fast and good enough for fuzzing
+function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    bool: (probability = 0.5) => next() < probability,
+    pick: items => items[Math.floor(next() * items.length)]
+  };
+}
+
+async function forAll(property: (random: Random) => void | Promise<void>): Promise<void> {
+  for (let run = 0; run < RUNS; run++) {
+    const seed = BASE_SEED + run;
+    try {
+      await property(createRandom(seed));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Property failed for seed ${seed} (replay: FUZZ_SEED=${seed} FUZZ_RUNS=1)\n${message}`);
+    }
+  }
+}
+
+const TRICKY_STRINGS = [
+  '', ' ', 'gpu-1', 'GPU Utilization', '75', '75%', '12.5 GB', 'NaN', 'Infinity', '-inf', '1e999',
+  '2025-10-27T10:00:00Z', '2025-10-27', 'Mon, 27 Oct 2025 10:00:00 +0000', 'invalid-date',
+  '°C', 'MiB', '"quoted"', 'back\\slash', 'new\nline', '🚀', '\u0000', '{}', '[]', 'null'
+];
+
+const TRICKY_NUMBERS = [0, -0, 1, -1, 85.5, 1e21, -1e-7, 1761559200, 1761559200000, NaN, Infinity, -Infinity];
+
+const METRIC_KEYS = ['id', 'name', 'value', 'timestamp', 'unit', 'tags', 'type', 'text', 'items', 'data'];
+
+function randomString(random: Random): string {
+  if (random.bool(0.7)) {
+    return random.pick(TRICKY_STRINGS);
+  }
+  const length = random.int(0, 12);
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    text += String.fromCharCode(random.int(0, 0x2fff));
+  }
+  return text;
+}
+
+// Any JSON-ish value, biased towards metric-like objects
+function randomValue(random: Random, depth = 0): unknown {
+  const kind = random.int(0, depth > 2 ? 4 : 7);
+  switch (kind) {
+    case 0: return null;
+    case 1: return undefined;
+    case 2: return random.bool();
+    case 3: return random.pick(TRICKY_NUMBERS);
+    case 4: return randomString(random);
+    case 5: return Array.from({ length: random.int(0, 4) }, () => randomValue(random, depth + 1));
+    default: return randomObject(random, depth + 1);
+  }
+}
+
+function randomObject(random: Random, depth = 0): Record<string, unknown> {
+  const object: Record<string, unknown> = {};
+  for (const key of METRIC_KEYS) {
+    if (random.bool(0.6)) {
+      object[key] = randomValue(random, depth);
+    }
+  }
+  return object;
+}
+
+// A mostly valid metric, so the happy path is exercised too
+function randomMetric(random: Random): Record<string, unknown> {
+  const metric: Record<string, unknown> = {
+    id: `gpu-${random.int(0, 5)}`,
+    name: random.pick(['GPU Utilization', 'GPU Temperature', 'GPU Memory']),
+    value: random.bool(0.8) ? random.int(0, 1000) / 10 : randomValue(random),
+    timestamp: random.bool(0.8)
+      ? new Date(1761559200000 + random.int(0, 3600) * 1000).toISOString()
+      : randomValue(random)
+  };
+  if (random.bool(0.3)) {
+    metric.unit = random.pick(['%', 'GB', 'MiB', '°C', '', 'furlongs']);
+  }
+  return metric;
+}
+
+function randomItems(random: Random): unknown[] {
+  return Array.from({ length: random.int(0, 20) }, () =>
+    random.bool(0.5) ? randomMetric(random) : randomValue(random)
+  );
+}
+
+// Valid JSON text with random corruption: deletions, insertions and truncation
+function corrupt(random: Random, text: string): string {
+  let result = text;
+  const edits = random.int(0, 3);
+  for (let i = 0; i < edits; i++) {
+    const position = random.int(0, result.length);
+    if (random.bool()) {
+      result = result.slice(0, position) + result.slice(position + random.int(1, 5));
+    } else {
+      const inserted = random.pick(['{', '}', '[', ']', ',', '"', '\\', '\n', ':']);
+      result = result.slice(0, position) + inserted + result.slice(position);
+    }
+  }
+  return random.bool(0.1) ? result.slice(0, random.int(0, result.length)) : result;
+}
+
+// Split text into random chunks (sometimes as UTF-8 bytes, cutting through characters)
+function chunk(random: Random, text: string): (string | Uint8Array)[] {
+  const chunks: (string | Uint8Array)[] = [];
+  if (random.bool()) {
+    const bytes = new TextEncoder().encode(text);
+    for (let i = 0; i < bytes.length; ) {
+      const size = random.int(1, 40);
+      chunks.push(bytes.slice(i, i + size));
+      i += size;
+    }
+  } else {
+    for (let i = 0; i < text.length; ) {
+      const size = random.int(1, 40);
+      chunks.push(text.slice(i, i + size));
+      i += size;
+    }
+  }
+  return chunks;
+}
+
+function randomPolicy(random: Random): ParsePolicyInput {
+  return random.bool(0.5)
+    ? random.pick(['strict', 'lenient', 'coerce'] as const)
+    : {
+        value: random.pick(['strict', 'lenient', 'coerce'] as const),
+        nonFinite: random.pick(['reject', 'allow'] as const),
+        normalizeUnits: random.bool(),
+        duplicates: random.pick(['allow', 'keep-first', 'keep-last', 'error', 'average'] as const),
+        checkOrder: random.bool(),
+        anomalies: random.bool() ? { outliers: { method: random.pick(['zscore', 'mad'] as const) } } : undefined
+      };
+}
+
+// Every index must be reported exactly once: as an error, as a valid metric or as a dropped duplicate
+function expectEveryIndexOnce(
+  total: number,
+  result: { valid: unknown[]; errors: { index: number }[]; warnings: { index: number; code: string }[] }
+): void {
+  const errorIndexes = result.errors.map(error => error.index);
+  const dropped = result.warnings.filter(warning => warning.code === 'duplicate').map(warning => warning.index);
+  const reported = [...errorIndexes, ...dropped];
+
+  expect(new Set(reported).size).toBe(reported.length);
+  reported.forEach(index => expect(index >= 0 && index < total).toBe(true));
+  expect(result.valid.length + reported.length).toBe(total);
+}
+
+// ============================================
+// Properties
+// ============================================
+
+describe('Fuzz: Metric Parser', () => {
+  test('parseMetrics never throws and accounts for every index', async () => {
+    await forAll(random => {
+      const items = randomItems(random);
+      const result = parseMetrics(items, randomPolicy(random));
+
+      expectEveryIndexOnce(items.length, result);
+      result.errors.forEach(error => {
+        expect(error.issues.length).toBeGreaterThan(0);
+        expect(error.reason).toBe(error.issues[0].reason);
+      });
+    });
+  });
+
+  test('parseMetricStream never throws and yields each index once', async () => {
+    await forAll(async random => {
+      const items = randomItems(random).filter(item => item !== undefined);
+      const lines = items.map(item => corrupt(random, JSON.stringify(item) ?? 'null'));
+      const text = random.bool()
+        ? lines.join(random.pick(['\n', '\r\n', '\n\n']))
+        : corrupt(random, JSON.stringify(items, null, random.pick([0, 2])));
+
+      const indexes: number[] = [];
+      for await (const record of parseMetricStream(chunk(random, text), randomPolicy(random))) {
+        const index = record.type === 'metric' ? record.index : record.error.index;
+        if (index !== -1) {
+          indexes.push(index);
+        }
+      }
+
+      expect(indexes).toEqual(indexes.map((_, i) => i));
+    });
+  });
+
+  test('text adapters never throw and account for every record', async () => {
+    await forAll(random => {
+      const rows = randomItems(random).map(item =>
+        typeof item === 'object' && item !== null ? (item as Record<string, unknown>) : {}
+      );
+      const csvLines = rows.map(row => Object.values(row).map(String).join(','));
+      const csv = corrupt(random, ['id,name,value,timestamp,unit', ...csvLines].join('\n'));
+      const samples = rows.map(row => `${String(row.name).replace(/\W/g, '_')}{gpu="${row.id}"} ${row.value}`);
+      const prometheus = corrupt(random, samples.join('\n'));
+
+      for (const [adapter, text] of [[csvAdapter(), csv], [prometheusAdapter(), prometheus]] as const) {
+        const records = adapter.read(text);
+        const result = parseMetricsWith(adapter, text, randomPolicy(random));
+        expectEveryIndexOnce(records.length, result);
+      }
+    });
+  });
+});
+
+describe('Fuzz: Component Renderer', () => {
+  // Rendered with { shown: true }: "false" and "!shown" hide, the broken condition is an error
+  const CONDITIONS = ['true', 'false', 'shown', '!shown', 'shown =='];
+  const HIDING_CONDITIONS = new Set(['false', '!shown']);
+  const FRAGMENT_NAMES = ['summary', 'single', 'missing'];
+
+  function randomComponent(random: Random, depth = 0): unknown {
+    if (random.bool(0.2)) {
+      return randomValue(random);
+    }
+    const component = randomObject(random);
+    const types = ['header', 'chart', 'grid', 'list', 'metric', 'unknown', randomString(random)];
+    component.type = random.pick(types);
+    if (random.bool(0.3)) {
+      component.visibleIf = random.pick(CONDITIONS);
+    }
+    if (depth < 3 && random.bool(0.4)) {
+      component.items = Array.from({ length: random.int(0, 4) }, () => randomComponent(random, depth + 1));
+    }
+    return component;
+  }
+
+  // Fragments for every name but "missing"; "single" is usually a lone component rather than an array
+  function randomFragments(random: Random): Record<string, unknown> {
+    return {
+      summary: Array.from({ length: random.int(0, 4) }, () => randomComponent(random, 1)),
+      single: randomComponent(random, 1)
+    };
+  }
+
+  function randomRef(random: Random): Record<string, unknown> {
+    const ref: Record<string, unknown> = { type: 'ref', ref: random.pick(FRAGMENT_NAMES) };
+    if (random.bool()) {
+      ref.props = { gpu: random.int(0, 3) };
+    }
+    return ref;
+  }
+
+  function isRef(item: unknown): item is { ref: string } {
+    return typeof item === 'object' && item !== null && (item as { type?: unknown }).type === 'ref';
+  }
+
+  function isHidden(item: unknown): boolean {
+    if (typeof item !== 'object' || item === null) return false;
+    const { type, visibleIf } = item as { type?: unknown; visibleIf?: unknown };
+    return typeof type === 'string' && typeof visibleIf === 'string' && HIDING_CONDITIONS.has(visibleIf);
+  }
+
+  // Results expected at the top level: refs expand to their fragment (a missing one is one error)
+  function expectedCount(components: unknown[], fragments: Record<string, unknown>): number {
+    const expanded = components.flatMap(item => {
+      if (!isRef(item)) return [item];
+      return Object.hasOwn(fragments, item.ref) ? [fragments[item.ref]].flat() : [{ type: 'ref' }];
+    });
+    return expanded.length - expanded.filter(isHidden).length;
+  }
+
+  test('render never throws and returns one result per visible, expanded component', async () => {
+    const renderer = new ComponentRenderer();
+
+    await forAll(random => {
+      const fragments = randomFragments(random);
+      const components = Array.from({ length: random.int(0, 10) }, () =>
+        random.bool(0.25) ? randomRef(random) : randomComponent(random)
+      );
+      const screen = { screen: randomString(random), components, fragments };
+      const config = random.bool(0.9) ? screen : randomValue(random);
+      const output = renderer.render(config, { context: { shown: true } });
+
+      if (config !== screen) {
+        const isScreen = typeof (config as any)?.screen === 'string' && Array.isArray((config as any).components);
+        if (!isScreen) {
+          expect(output.components).toEqual([]);
+          expect(output.errors.length).toBeGreaterThan(0);
+        }
+        return;
+      }
+
+      expect(output.components).toHaveLength(expectedCount(components, fragments));
+      // Previews accept anything the renderer let through
+      expect(typeof renderHtml(output)).toBe('string');
+      expect(typeof renderTerminal(output, { color: random.bool() })).toBe('string');
+      // Every failed component is reported (loading components are not failures)
+      const failed = output.components.filter(c => !c.isValid && !('status' in c && c.status === 'loading'));
+      expect(output.errors.length).toBeGreaterThanOrEqual(failed.length);
+    });
+  });
+
+  test('applying the diff of two renders reproduces the second', async () => {
+    const renderer = new ComponentRenderer();
+    const screen = (random: Random) => ({
+      screen: 'fuzz',
+      components: Array.from({ length: random.int(0, 8) }, () => {
+        const component = randomComponent(random);
+        // Shared and duplicate ids across both renders
+        if (typeof component === 'object' && component !== null && random.bool(0.5)) {
+          (component as Record<string, unknown>).id = `c${random.int(0, 6)}`;
+        }
+        return component;
+      })
+    });
+
+    await forAll(random => {
+      const previous = renderer.render(screen(random), { keepInvalidChildren: random.bool() });
+      const next = renderer.render(screen(random), { keepInvalidChildren: random.bool() });
+
+      expect(applyPatch(previous, diffScreens(previous, next))).toEqual(next);
+    });
+  });
+});
+
+describe('Fuzz: Expressions', () => {
+  const FRAGMENTS = [
+    'run', '.', 'status', 'metrics', 'loss', ' ', '==', '!=', '<', '>=', '&&', '||', '!', '(', ')',
+    "'failed'", '"x', '0.5', '42', 'true', 'null', '__proto__', 'constructor', '{{', '}}', '=', '+'
+  ];
+
+  function randomSource(random: Random): string {
+    if (random.bool(0.2)) {
+      return randomString(random);
+    }
+    return Array.from({ length: random.int(0, 12) }, () => random.pick(FRAGMENTS)).join('');
+  }
+
+  test('parsing and evaluation never throw and never reach prototype members', async () => {
+    const context = { run: { status: 'failed', metrics: { loss: 0.5 } } };
+
+    await forAll(random => {
+      const source = randomSource(random);
+      const parsed = parseExpression(source);
+      if (parsed.valid) {
+        const value = evaluateExpression(parsed.expression, context);
+        expect(typeof value).not.toBe('function');
+      } else {
+        expect(parsed.error.length).toBeGreaterThan(0);
+      }
+
+      const rendered = renderTemplate(`Run {{${source}}} done`, context);
+      expect(rendered.valid ? typeof rendered.text : rendered.error.length > 0).toBeTruthy();
+    });
+  });
+});
+
+describe('Fuzz: Zod Validators', () => {
+  test('validators never throw and return a consistent result', async () => {
+    await forAll(random => {
+      const input = random.bool() ? randomObject(random) : randomValue(random);
+      const metrics = randomItems(random);
+
+      for (const result of [
+        validateDashboardConfig(input),
+        validateMetric(input),
+        validateAndMigrateDashboard(structuredClone(input)),
+        validateMetrics(metrics)
+      ]) {
+        if (result.success) {
+          expect(result.data).toBeDefined();
+        } else {
+          expect(result.errors.length).toBeGreaterThan(0);
+        }
+      }
+    });
+  });
+});
+
+describe('Fuzz: Transform Pipeline', () => {
+  function randomRawMetrics(random: Random): RawMetric[] {
+    return Array.from({ length: random.int(0, 40) }, (_, step) => ({
+      timestamp: new Date(1735689600000 + random.int(0, 86400) * 1000),
+      name: random.pick(['loss', 'accuracy', 'learning_rate']),
+      value: random.bool(0.9) ? random.next() * 10 : random.pick(TRICKY_NUMBERS),
+      step
+    }));
+  }
+
+  test('standard transformers never throw and keep their invariants', async () => {
+    await forAll(async random => {
+      const metrics = randomRawMetrics(random);
+      const maxPoints = random.int(1, 50);
+
+      const sampled = await new TransformPipeline<RawMetric[]>()
+        .pipe(transformers.filterByName(['loss', 'accuracy']))
+        .pipe(transformers.sampleMetrics(maxPoints))
+        .execute(metrics);
+      const filtered = metrics.filter(m => m.name !== 'learning_rate');
+      expect(sampled.length).toBeLessThanOrEqual(Math.min(filtered.length, 2 * maxPoints + 1));
+      sampled.forEach(metric => expect(filtered).toContain(metric));
+
+      const aggregated = await new TransformPipeline<RawMetric[]>()
+        .pipe(transformers.movingAverage(random.int(1, 5)))
+        .pipe(transformers.aggregateByInterval(random.int(1, 120)))
+        .execute(metrics);
+      expect(aggregated.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(metrics.length);
+
+      const chart = await new TransformPipeline<RawMetric[]>()
+        .pipe(transformers.formatForChart())
+        .execute(metrics);
+      expect(chart.series.reduce((sum, series) => sum + series.data.length, 0)).toBe(metrics.length);
+    });
+  });
+});
+
+describe('Fuzz: API Client', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('requests with arbitrary endpoints always resolve to a response union', async () => {
+    const client = new ApiClient({ baseUrl: 'https://api.example.com', maxRetries: 0 });
+
+    await forAll(async random => {
+      const pending = random.bool()
+        ? client.getExperiment(randomString(random))
+        : client.get<unknown>(`/${randomString(random)}`);
+      await jest.advanceTimersByTimeAsync(1000);
+      const response = await pending;
+
+      if (response.success) {
+        expect(response.data).toBeDefined();
+      } else {
+        expect(typeof response.error.code).toBe('string');
+      }
+    });
+  });
+});
@@ -1,5 +1,47 @@
 import { describe, test, expect } from '@jest/globals';
-import { parseMetrics, testData } from '../src/problems/problem1';
+import { z } from 'zod';
+import {
+  buildParseReport,
+  convertMetric,
+  csvAdapter,
+  flagAnomalies,
+  parseMetrics,
+  parseMetricsWith,
+  parseMetricStream,
+  prometheusAdapter,
+  renderParseReport,
+  testData,
+  units,
+  type MetricStreamRecord
+} from '../src/problems/problem1';
+import {
+  fromRawMetric,
+  fromSchemaMetric,
+  prepareMetrics,
+  toRawMetrics,
+  toSchemaMetric,
+  type CanonicalMetric
+} from '../src/problems/metricModel';
+import { TransformPipeline, transformers } from '../src/problems/problem5';
+import {
+  ActionDispatcher,
+  ComponentRenderer,
+  sourceKey,
+  testConfig,
+  validateDataSource,
+  type BaseComponent,
+  type ClientCapabilities,
+  type ComponentPlugin
+} from '../src/problems/problem2';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { ApiClient } from '../src/problems/problem3';
+import { FetchTransport, MemoryTransport, NodeHttpTransport, type MemoryResponse } from '../src/problems/transport';
+import { collectDataSources, resolveDataSources } from '../src/problems/dataBinding';
+import { renderHtml, renderTerminal } from '../src/problems/screenPreview';
+import { evaluateExpression, parseExpression, renderTemplate } from '../src/problems/expressions';
+import { applyPatch, diffScreens } from '../src/problems/screenDiff';
+import { lintScreen } from '../src/problems/screenLint';
 
 describe('Problem 1: Metric Parser', () => {
   test('should parse valid metrics', () => {
@@ -13,4 +55,1477 @@ describe('Problem 1: Metric Parser', () => {
   });
 });
 
-// Add more tests for other problems
\ No newline at end of file
+describe('Problem 1: Field Errors', () => {
+  test('should report every field issue of an item', () => {
+    const result = parseMetrics([{ id: 'gpu-3', value: 'abc', timestamp: 42 }]);
+    const [error] = result.errors;
+
+    expect(error.id).toBe('gpu-3');
+    expect(error.reason).toBe('Missing or invalid required field: name');
+    expect(error.issues).toEqual([
+      { path: 'name', code: 'missing', reason: 'Missing or invalid required field: name', raw: undefined },
+      {
+        path: 'value',
+        code: 'bad_format',
+        reason: 'Missing or invalid required field: value (must be a number)',
+        raw: 'abc'
+      },
+      {
+        path: 'timestamp',
+        code: 'wrong_type',
+        reason: 'Missing or invalid required field: timestamp (must be valid ISO 8601 format)',
+        raw: 42
+      }
+    ]);
+  });
+
+  test('should keep one error entry per failing item', () => {
+    const result = parseMetrics([42, { id: 7 }]);
+
+    expect(result.errors.map(e => e.index)).toEqual([0, 1]);
+    expect(result.errors[0].issues[0]).toMatchObject({ path: '', code: 'wrong_type' });
+    expect(result.errors[1].id).toBeUndefined();
+    expect(result.errors[1].issues.map(i => `${i.path}:${i.code}`)).toEqual([
+      'id:wrong_type',
+      'name:missing',
+      'value:missing',
+      'timestamp:missing'
+    ]);
+  });
+
+  test('should flag non-finite values as out of range', () => {
+    const result = parseMetrics([
+      { id: 'gpu-1', name: 'Util', value: 'Infinity', timestamp: '2025-10-27T10:00:00Z' }
+    ]);
+
+    expect(result.errors[0].issues[0]).toMatchObject({ path: 'value', code: 'out_of_range' });
+  });
+});
+
+describe('Problem 1: Parse Policy', () => {
+  const base = { id: 'gpu-1', name: 'GPU Memory', timestamp: '2025-10-27T10:00:00Z' };
+
+  test('should reject numeric strings and empty units in strict mode', () => {
+    const result = parseMetrics(
+      [{ ...base, value: '75' }, { ...base, value: 75, unit: '' }, { ...base, value: 75 }],
+      'strict'
+    );
+
+    expect(result.valid).toHaveLength(1);
+    expect(result.errors.map(e => e.index)).toEqual([0, 1]);
+  });
+
+  test('should record numeric-string coercion in lenient mode', () => {
+    const result = parseMetrics([{ ...base, value: '75' }]);
+
+    expect(result.valid[0].value).toBe(75);
+    expect(result.valid[0].coercions).toEqual([{ field: 'value', rule: 'numeric-string', raw: '75' }]);
+  });
+
+  test('should coerce unit suffixes and epoch / RFC 2822 timestamps', () => {
+    const result = parseMetrics(
+      [
+        { ...base, value: '12.5 GB', timestamp: 1761559200 },
+        { ...base, value: '75%', timestamp: 'Mon, 27 Oct 2025 10:00:00 +0000' },
+        { ...base, value: '1 GB', unit: 'MB' }
+      ],
+      'coerce'
+    );
+
+    expect(result.valid[0]).toMatchObject({ value: 12.5, unit: 'GB', timestamp: '2025-10-27T10:00:00.000Z' });
+    expect(result.valid[0].coercions?.map(c => c.rule)).toEqual(['unit-suffix', 'epoch-seconds']);
+    expect(result.valid[1]).toMatchObject({ value: 75, unit: '%', timestamp: '2025-10-27T10:00:00.000Z' });
+    expect(result.errors[0].reason).toMatch(/Conflicting units/);
+  });
+
+  test('should accept a unit suffix that is an alias of the explicit unit', () => {
+    const result = parseMetrics(
+      [
+        { ...base, value: '75%', unit: 'percent' },
+        { ...base, value: '2 kB', unit: 'KB' },
+        { ...base, value: '40 C', unit: '°C' }
+      ],
+      'coerce'
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid.map(m => [m.value, m.unit])).toEqual([[75, 'percent'], [2, 'KB'], [40, '°C']]);
+  });
+
+  test('should only accept NaN / Infinity when allowed', () => {
+    const data = [{ ...base, value: 'NaN' }, { ...base, value: '-Infinity' }];
+
+    expect(parseMetrics(data).errors).toHaveLength(2);
+    expect(parseMetrics(data, { nonFinite: 'allow' }).valid.map(m => m.value)).toEqual([NaN, -Infinity]);
+  });
+});
+
+describe('Problem 1: Streaming Metric Parser', () => {
+  async function collect(chunks: (string | Uint8Array)[]): Promise<MetricStreamRecord[]> {
+    const records: MetricStreamRecord[] = [];
+    for await (const record of parseMetricStream(chunks)) {
+      records.push(record);
+    }
+    return records;
+  }
+
+  test('should parse NDJSON split across chunks with offsets and lines', async () => {
+    const records = await collect([
+      '{"id":"gpu-1","name":"Util","value":1,"timestamp":"2025-10-27T10:00:00Z"}\n{"id":"gp',
+      'u-2","name":"Temp","value":2,"timestamp":"2025-10-27T10:00:00Z"}\n\n{"id":"gpu-3"}\n'
+    ]);
+
+    expect(records.map(r => r.type)).toEqual(['metric', 'metric', 'error']);
+    expect(records[1]).toMatchObject({ index: 1, offset: 74, line: 2 });
+    expect(records[2]).toMatchObject({ error: { index: 2, line: 4 } });
+  });
+
+  test('should recover from a malformed NDJSON line', async () => {
+    const records = await collect([
+      '{"id": oops}\n{"id":"gpu-1","name":"Util","value":1,"timestamp":"2025-10-27T10:00:00Z"}'
+    ]);
+
+    expect(records[0]).toMatchObject({ type: 'error', error: { index: 0, offset: 0, line: 1 } });
+    expect(records[0].type === 'error' && records[0].error.reason).toMatch(/^Malformed JSON/);
+    expect(records[1]).toMatchObject({ type: 'metric', index: 1, offset: 13, line: 2 });
+  });
+
+  test('should parse a top-level JSON array with byte offsets for multi-byte text', async () => {
+    const encoder = new TextEncoder();
+    const text =
+      '[\n  {"id":"t","name":"Temp °C","value":75,"timestamp":"2025-10-27T10:00:00Z"},\n' +
+      '  {"id": bad},\n  "nope"\n]';
+    const bytes = encoder.encode(text);
+    const records = await collect([bytes.slice(0, 30), bytes.slice(30)]);
+
+    expect(records.map(r => r.type)).toEqual(['metric', 'error', 'error']);
+    expect(records[0]).toMatchObject({ index: 0, offset: 4, line: 2 });
+    expect(records[1]).toMatchObject({ error: { index: 1, offset: 82, line: 3 } });
+    expect(records[2]).toMatchObject({ error: { index: 2, reason: 'Item is not an object', line: 4 } });
+  });
+
+  test('should report empty elements and trailing commas', async () => {
+    const metric = '{"id":"gpu-1","name":"Util","value":1,"timestamp":"2025-10-27T10:00:00Z"}';
+    const empty = await collect([`[${metric},,\n${metric}]`]);
+    const trailing = await collect([`[\n${metric},\n]`]);
+
+    expect(empty.map(r => r.type)).toEqual(['metric', 'metric', 'error']);
+    expect(empty[2]).toMatchObject({ error: { index: -1, reason: 'Empty array element', offset: 75, line: 1 } });
+    expect(trailing.map(r => r.type)).toEqual(['metric', 'error']);
+    expect(trailing[1]).toMatchObject({
+      error: { index: -1, reason: 'Trailing comma before "]"', offset: 75, line: 2 }
+    });
+  });
+
+  test('should report an unterminated array', async () => {
+    const records = await collect(['[{"id":"gpu-1"', ', "name": "x"']);
+
+    expect(records).toHaveLength(1);
+    expect(records[0].type).toBe('error');
+  });
+});
+
+describe('Problem 1: Duplicates & Ordering', () => {
+  const metric = (id: string, value: number, timestamp: string) => ({ id, name: 'Util', value, timestamp });
+  const data = [
+    metric('gpu-1', 10, '2025-10-27T10:00:00Z'),
+    metric('gpu-1', 20, '2025-10-27T10:00:00.000Z'), // same instant, retried upload
+    metric('gpu-2', 5, '2025-10-27T10:05:00Z'),
+    metric('gpu-2', 6, '2025-10-27T10:01:00Z')
+  ];
+
+  test('should keep duplicates by default', () => {
+    const result = parseMetrics(data);
+
+    expect(result.valid).toHaveLength(4);
+    expect(result.warnings).toEqual([]);
+  });
+
+  test('should resolve duplicates by keeping first or last', () => {
+    const first = parseMetrics(data, { duplicates: 'keep-first' });
+    const last = parseMetrics(data, { duplicates: 'keep-last' });
+
+    expect(first.valid.map(m => m.value)).toEqual([10, 5, 6]);
+    expect(first.warnings).toMatchObject([{ index: 1, id: 'gpu-1', code: 'duplicate' }]);
+    expect(last.valid.map(m => m.value)).toEqual([20, 5, 6]);
+    expect(last.warnings).toMatchObject([{ index: 0, code: 'duplicate' }]);
+  });
+
+  test('should turn duplicates into errors or average them', () => {
+    const errored = parseMetrics(data, { duplicates: 'error' });
+    const averaged = parseMetrics(data, { duplicates: 'average' });
+
+    expect(errored.errors).toMatchObject([{ index: 1, id: 'gpu-1', issues: [{ code: 'duplicate' }] }]);
+    expect(averaged.valid[0].value).toBe(15);
+    expect(averaged.valid[0].coercions).toEqual([{ field: 'value', rule: 'averaged', raw: [10, 20] }]);
+  });
+
+  test('should convert units before averaging duplicates', () => {
+    const reading = (value: number, unit?: string) => ({
+      id: 'gpu-1', name: 'Memory', value, timestamp: '2025-10-27T10:00:00Z', unit
+    });
+    const result = parseMetrics([reading(1, 'GB'), reading(1000, 'MB'), reading(3, '°C'), reading(2)], {
+      duplicates: 'average'
+    });
+
+    expect(result.valid).toMatchObject([{ value: 1, unit: 'GB' }]);
+    expect(result.valid[0].coercions).toEqual([{ field: 'value', rule: 'averaged', raw: [1, 1] }]);
+    expect(result.warnings).toMatchObject([{ index: 1, code: 'duplicate' }]);
+    expect(result.errors.map(error => [error.index, error.reason.split(': ')[1]])).toEqual([
+      [2, 'unit "°C" does not convert to "GB"'],
+      [3, 'unit (none) does not convert to "GB"']
+    ]);
+    expect(result.errors[0].reason).toMatch(/^Duplicate of item 0 \(gpu-1 at .*\) cannot be averaged: /);
+  });
+
+  test('should warn about timestamps going backwards per id', () => {
+    const result = parseMetrics(data, { checkOrder: true });
+
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toMatchObject([{ index: 3, id: 'gpu-2', code: 'out_of_order' }]);
+  });
+});
+
+describe('Problem 1: Input Adapters', () => {
+  test('should read long-format CSV with header mapping', () => {
+    const csv = [
+      'metric_id,metric,reading,time,unit',
+      'gpu-1,GPU Utilization,85.5,2025-10-27T10:00:00Z,%',
+      '"gpu-2","GPU ""Temp""",75,2025-10-27T10:00:00Z,',
+      'gpu-3,broken row'
+    ].join('\n');
+    const adapter = csvAdapter({
+      columns: { id: 'metric_id', name: 'metric', value: 'reading', timestamp: 'time' }
+    });
+    const result = parseMetricsWith(adapter, csv);
+
+    expect(result.valid).toMatchObject([
+      { id: 'gpu-1', name: 'GPU Utilization', value: 85.5, timestamp: '2025-10-27T10:00:00Z', unit: '%' },
+      { id: 'gpu-2', name: 'GPU "Temp"', value: 75, timestamp: '2025-10-27T10:00:00Z' }
+    ]);
+    expect(result.valid[1].unit).toBeUndefined();
+    expect(result.errors).toMatchObject([{ index: 2, line: 4, issues: [{ code: 'bad_format' }] }]);
+  });
+
+  test('should read wide-format nvidia-smi CSV', () => {
+    const csv = [
+      'timestamp, index, utilization.gpu [%], memory.used [MiB]',
+      '2025-10-27T10:00:00Z, 0, 85 %, 12000 MiB'
+    ].join('\r\n');
+    const adapter = csvAdapter({
+      columns: { id: 'index' },
+      valueColumns: ['utilization.gpu [%]', 'memory.used [MiB]'],
+      tagColumns: ['index']
+    });
+    const result = parseMetricsWith(adapter, csv, 'coerce');
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toMatchObject([
+      { id: '0:utilization.gpu', name: 'utilization.gpu', value: 85, unit: '%', tags: { index: '0' } },
+      { id: '0:memory.used', name: 'memory.used', value: 12000, unit: 'MiB' }
+    ]);
+  });
+
+  test('should read Prometheus exposition text with labels as tags', () => {
+    const text = [
+      '# HELP gpu_temperature_celsius GPU temperature',
+      '# TYPE gpu_temperature_celsius gauge',
+      '# UNIT gpu_temperature_celsius °C',
+      'gpu_temperature_celsius{gpu="0",host="node-1"} 75 1761559200000',
+      'gpu_up 1',
+      'gpu_power_watts{gpu="0" 300',
+      'gpu_temperature_celsius{gpu="1",host="node-1"} NaN'
+    ].join('\n');
+    const adapter = prometheusAdapter({ defaultTimestamp: '2025-10-27T10:00:00Z' });
+    const result = parseMetricsWith(adapter, text);
+
+    expect(result.valid).toEqual([
+      {
+        id: 'gpu_temperature_celsius{gpu="0",host="node-1"}',
+        name: 'gpu_temperature_celsius',
+        value: 75,
+        timestamp: '2025-10-27T10:00:00.000Z',
+        unit: '°C',
+        tags: { gpu: '0', host: 'node-1' }
+      },
+      { id: 'gpu_up', name: 'gpu_up', value: 1, timestamp: '2025-10-27T10:00:00Z' }
+    ]);
+    expect(result.errors.map(e => [e.index, e.line, e.issues[0].code])).toEqual([
+      [2, 6, 'bad_format'],
+      [3, 7, 'out_of_range']
+    ]);
+  });
+
+  test('should read OpenMetrics timestamps as seconds and reject fractional milliseconds', () => {
+    const text = 'temp_celsius 40 1700000000.5\ntemp_celsius 41 1700000001';
+    const seconds = parseMetricsWith(prometheusAdapter({ timestampUnit: 's' }), text);
+    const millis = parseMetricsWith(prometheusAdapter(), text);
+
+    expect(seconds.valid.map(m => m.timestamp)).toEqual(['2023-11-14T22:13:20.500Z', '2023-11-14T22:13:21.000Z']);
+    expect(millis.valid.map(m => m.timestamp)).toEqual(['1970-01-20T16:13:20.001Z']);
+    expect(millis.errors).toMatchObject([
+      { index: 0, line: 1, reason: expect.stringContaining('fractional millisecond timestamp "1700000000.5"') }
+    ]);
+  });
+
+  test('should take Prometheus units from the longest matching family', () => {
+    const text = [
+      '# UNIT gpu C',
+      '# UNIT gpu_mem_bytes B',
+      'gpu_mem_bytes_total 1024',
+      'gpu_temp 70'
+    ].join('\n');
+    const result = parseMetricsWith(prometheusAdapter({ defaultTimestamp: '2025-10-27T10:00:00Z' }), text);
+
+    expect(result.valid.map(m => [m.name, m.unit])).toEqual([['gpu_mem_bytes_total', 'B'], ['gpu_temp', 'C']]);
+  });
+});
+
+describe('Problem 1: Anomalies', () => {
+  const reading = (value: number, name = 'GPU Temperature', unit = '°C') => ({
+    id: `gpu-${value}`,
+    name,
+    value,
+    unit,
+    timestamp: '2025-10-27T10:00:00Z'
+  });
+
+  test('should flag values outside declarative ranges without dropping them', () => {
+    const result = parseMetrics(
+      [reading(75), reading(400), reading(572, 'GPU Temperature', '°F'), reading(180, 'GPU Utilization', '%')],
+      {
+        anomalies: {
+          ranges: {
+            'GPU Temperature': { min: 0, max: 120, unit: '°C', severity: 'critical' },
+            'GPU Utilization': { min: 0, max: 100 }
+          }
+        }
+      }
+    );
+
+    expect(result.valid).toHaveLength(4);
+    expect(result.valid[0].anomalies).toBeUndefined();
+    expect(result.valid[1].anomalies).toEqual([
+      { rule: 'range', severity: 'critical', message: 'GPU Temperature value 400°C is above maximum 120°C' }
+    ]);
+    expect(result.valid[2].anomalies?.[0].message).toMatch(/value 300°C/); // 572°F converted
+    expect(result.valid[3].anomalies?.[0]).toMatchObject({ rule: 'range', severity: 'warning' });
+  });
+
+  test('should detect statistical outliers per metric name', () => {
+    const metrics = parseMetrics([70, 72, 71, 73, 74, 72, 71, 250].map(v => reading(v))).valid;
+
+    const mad = flagAnomalies(metrics, { outliers: { method: 'mad' } });
+    expect(mad.filter(m => m.anomalies).map(m => m.value)).toEqual([250]);
+
+    const zscore = flagAnomalies(metrics, { outliers: { method: 'zscore', threshold: 2, severity: 'info' } });
+    expect(zscore[7].anomalies).toMatchObject([{ rule: 'zscore', severity: 'info' }]);
+
+    const tooFew = flagAnomalies(metrics, { outliers: { method: 'mad', minSamples: 20 } });
+    expect(tooFew.some(m => m.anomalies)).toBe(false);
+  });
+});
+
+describe('Problem 1: Parse Report', () => {
+  const result = parseMetrics([
+    ...testData,
+    { id: 'gpu-5', name: 'GPU Utilization', value: '95.5', timestamp: '2025-10-27T12:00:00Z' },
+    { id: 'gpu-6', value: 'x' }
+  ]);
+
+  test('should summarize counts, failures and metric statistics', () => {
+    const report = buildParseReport(result);
+
+    expect(report).toMatchObject({ total: 6, valid: 3, invalid: 3, dropped: 0 });
+    expect(report.errorsByReason['Missing or invalid required field: name']).toBe(2);
+    expect(report.fieldFailures.timestamp).toEqual({ count: 3, rate: 0.5 });
+    expect(report.coercions).toEqual({ 'numeric-string': 1 });
+    expect(report.metrics['GPU Utilization']).toEqual({ count: 2, min: 85.5, max: 95.5, mean: 90.5 });
+    expect(report.metrics['GPU Memory'].unit).toBe('GB');
+    expect(report.timeRange).toEqual({ start: '2025-10-27T10:00:00Z', end: '2025-10-27T12:00:00Z' });
+  });
+
+  test('should render as JSON and as a text table', () => {
+    const report = buildParseReport(result);
+
+    expect(JSON.parse(renderParseReport(report, 'json'))).toEqual(report);
+    const text = renderParseReport(report);
+    expect(text).toContain('Total  Valid  Invalid  Dropped  Warnings');
+    expect(text).toMatch(/GPU Utilization\s+2\s+85\.50\s+95\.50\s+90\.50/);
+  });
+});
+
+describe('Problem 1: Units', () => {
+  test('should resolve units to dimensions', () => {
+    expect(units.parse('MiB')).toMatchObject({ dimension: 'bytes', factor: 1024 ** 2 });
+    expect(units.parse('gb')?.symbol).toBe('GB');
+    expect(units.parse('mW')?.symbol).toBe('mW');
+    expect(units.parse('mw')).toBeNull(); // mW or MW?
+    expect(units.parse('furlongs')).toBeNull();
+  });
+
+  test('should convert between units of the same dimension only', () => {
+    expect(units.convert(1024, 'MiB', 'GiB')).toBe(1);
+    expect(units.convert(212, '°F', '°C')).toBeCloseTo(100);
+    expect(units.convert(0, '°C', 'K')).toBeCloseTo(273.15);
+    expect(units.convert(1, 'GB', 's')).toBeNull();
+  });
+
+  test('should normalize values to canonical units on parse', () => {
+    const result = parseMetrics(
+      [
+        { id: 'a', name: 'Memory', value: 512, unit: 'MiB', timestamp: '2025-10-27T10:00:00Z' },
+        { id: 'b', name: 'Memory', value: 0.5, unit: 'GB', timestamp: '2025-10-27T10:00:00Z' }
+      ],
+      { normalizeUnits: true }
+    );
+
+    expect(result.valid.map(m => [m.value, m.unit])).toEqual([[536870912, 'B'], [500000000, 'B']]);
+    expect(result.valid[0].coercions).toContainEqual({ field: 'unit', rule: 'normalized', raw: 'MiB' });
+  });
+
+  test('should convert a parsed metric for charting', () => {
+    const [metric] = parseMetrics([
+      { id: 'a', name: 'Memory', value: 2048, unit: 'MiB', timestamp: '2025-10-27T10:00:00Z' }
+    ]).valid;
+
+    expect(convertMetric(metric, 'GiB')).toMatchObject({ value: 2, unit: 'GiB' });
+    expect(convertMetric(metric, '%')).toBeNull();
+  });
+});
+
+describe('Metric Model', () => {
+  const payload = [
+    { id: 'gpu-1', name: 'loss', value: '0.5', timestamp: '2025-10-27T10:01:00Z', tags: { run: 'a' } },
+    { id: 'gpu-1', name: 'loss', value: 0.4, timestamp: '2025-10-27T10:00:00Z' },
+    { id: 'gpu-2', name: 'loss', value: -1, timestamp: '2025-10-27T10:02:00Z' }, // schema: non-negative
+    { id: 'gpu-3', name: 'loss' }
+  ];
+
+  test('should parse, schema-check and convert a payload', () => {
+    const prepared = prepareMetrics(payload);
+
+    expect(prepared.metrics.map(m => m.value)).toEqual([0.5, 0.4]);
+    expect(prepared.metrics[0].timestamp).toEqual(new Date('2025-10-27T10:01:00Z'));
+    expect(prepared.parseErrors.map(e => e.index)).toEqual([3]);
+    expect(prepared.schemaErrors).toMatchObject([{ metric: { id: 'gpu-2' } }]);
+    expect(prepared.schemaErrors[0].errors[0]).toMatch(/^value:/);
+  });
+
+  test('should feed prepared metrics straight into a pipeline', async () => {
+    const { metrics } = prepareMetrics(payload);
+    const chart = await new TransformPipeline<CanonicalMetric[]>()
+      .pipe(toRawMetrics)
+      .pipe(transformers.formatForChart({ title: 'Loss' }))
+      .execute(metrics);
+
+    expect(chart.series[0].data.map(point => [point.y, point.label])).toEqual([
+      [0.4, 'Step 0'],
+      [0.5, 'Step 1']
+    ]);
+  });
+
+  test('should round-trip schema tags and pipeline metadata', () => {
+    const schemaMetric = {
+      id: 'm',
+      name: 'util',
+      value: 1,
+      timestamp: '2025-10-27T10:00:00.000Z',
+      tags: ['prod', 'gpu=0']
+    };
+    const canonical = fromSchemaMetric(schemaMetric);
+
+    expect(canonical.tags).toEqual({ prod: '', gpu: '0' });
+    expect(toSchemaMetric(canonical)).toEqual(schemaMetric);
+
+    const [raw] = toRawMetrics([{ ...canonical, unit: '%', step: 7 }]);
+    expect(raw).toMatchObject({ step: 7, metadata: { id: 'm', unit: '%', tags: { prod: '', gpu: '0' } } });
+    expect(fromRawMetric(raw)).toEqual({ ...canonical, unit: '%', step: 7 });
+  });
+});
+
+describe('Problem 2: Component Renderer', () => {
+  test('should render valid components and report invalid ones', () => {
+    const output = new ComponentRenderer().render(testConfig);
+
+    expect(output.screen).toBe('dashboard');
+    expect(output.components).toHaveLength(testConfig.components.length);
+    expect(output.components.filter(c => !c.isValid)).toHaveLength(3);
+    expect(output.errors).toContain('components[4]: Unknown component type: "unknown"');
+  });
+});
+
+describe('Problem 2: Nested Errors', () => {
+  const config = {
+    screen: 'gpu',
+    components: [
+      { type: 'header', text: 'GPU' },
+      { type: 'grid', columns: 2, items: [
+        { type: 'metric', label: 'Temperature', value: 75 },
+        { type: 'metric', label: '' },
+        { type: 'list', items: [{ type: 'sparkline' }] }
+      ]}
+    ]
+  };
+
+  test('should report invalid grid and list children with their path', () => {
+    const output = new ComponentRenderer().render(config);
+
+    expect(output.errors).toEqual([
+      'components[1].items[1]: Invalid data for component type "metric"',
+      'components[1].items[2].items[0]: Unknown component type: "sparkline"'
+    ]);
+    const grid = output.components[1];
+    expect(grid.isValid && grid.component.type === 'grid' && grid.component.items).toHaveLength(2);
+  });
+
+  test('should keep placeholders in place when keepInvalidChildren is set', () => {
+    const output = new ComponentRenderer().render(config, { keepInvalidChildren: true });
+
+    const grid = output.components[1];
+    if (!grid.isValid || grid.component.type !== 'grid') {
+      throw new Error('Expected a valid grid');
+    }
+    expect(grid.component.items.map(item => item.isValid)).toEqual([true, false, true]);
+    expect(grid.component.items[1]).toMatchObject({ type: 'metric', path: 'components[1].items[1]' });
+  });
+
+  test('should stop rendering below maxDepth', () => {
+    let nested: any = { type: 'metric', label: 'Leaf', value: 1 };
+    for (let i = 0; i < 5; i++) {
+      nested = { type: 'list', items: [nested] };
+    }
+
+    const output = new ComponentRenderer().render({ screen: 'deep', components: [nested] }, { maxDepth: 3 });
+
+    expect(output.components[0].isValid).toBe(true);
+    expect(output.errors).toEqual([
+      'components[0].items[0].items[0].items[0]: Maximum nesting depth (3) exceeded'
+    ]);
+  });
+});
+
+describe('Problem 2: Custom Components', () => {
+  interface GaugeComponent extends BaseComponent<'gauge'> {
+    value: number;
+    max: number;
+  }
+
+  interface ImageComponent extends BaseComponent<'image'> {
+    src: string;
+    alt?: string;
+  }
+
+  const gauge: ComponentPlugin<GaugeComponent> = {
+    type: 'gauge',
+    validate: data => {
+      if (typeof data.value !== 'number') {
+        return null;
+      }
+      return { type: 'gauge', value: data.value, max: data.max ?? 100, id: data.id };
+    }
+  };
+
+  test('should render registered third-party component types, including nested ones', () => {
+    const renderer = new ComponentRenderer()
+      .use(gauge)
+      .registerComponent('image', (data: any): ImageComponent | null =>
+        typeof data.src === 'string' ? { type: 'image', src: data.src, alt: data.alt } : null
+      );
+
+    const output = renderer.render({
+      screen: 'gpu',
+      components: [
+        { type: 'gauge', value: 85 },
+        { type: 'grid', columns: 1, items: [{ type: 'image', src: 'gpu.png' }] },
+        { type: 'gauge' }
+      ]
+    });
+
+    const [first, grid, invalid] = output.components;
+    // The result union includes the registered types, so this narrows without casts
+    if (first.isValid && first.component.type === 'gauge') {
+      expect(first.component.max).toBe(100);
+    } else {
+      throw new Error('Expected a valid gauge');
+    }
+    expect(grid.isValid && grid.component.type === 'grid' && grid.component.items[0]).toEqual({
+      component: { type: 'image', src: 'gpu.png', alt: undefined },
+      isValid: true,
+      path: 'components[1].items[0]'
+    });
+    expect(invalid).toMatchObject({ isValid: false, error: 'Invalid data for component type "gauge"' });
+    expect(renderer.hasComponent('image')).toBe(true);
+    expect(renderer.getComponentTypes()).toEqual(['header', 'chart', 'metric', 'grid', 'list', 'gauge', 'image']);
+  });
+});
+
+describe('Problem 2: Actions', () => {
+  test('should validate action bindings on any component type', () => {
+    const output = new ComponentRenderer().render({
+      screen: 'runs',
+      components: [
+        { type: 'metric', label: 'Loss', value: 0.2,
+          actions: { onTap: { type: 'navigate', screen: 'run', params: { id: 'r1' } } } },
+        { type: 'header', text: 'Docs', actions: { onTap: { type: 'openUrl', url: 'javascript:alert(1)' } } },
+        { type: 'chart', data: [1], chartType: 'bar', actions: { onHover: { type: 'refresh' } } },
+        { type: 'metric', label: 'Runs', value: 3,
+          actions: { onLongPress: { type: 'callApi', endpoint: '/runs/r1/stop' } } }
+      ]
+    });
+
+    expect(output.components[0]).toMatchObject({
+      isValid: true,
+      component: { actions: { onTap: { type: 'navigate', screen: 'run', params: { id: 'r1' } } } }
+    });
+    expect(output.errors).toEqual([
+      'components[1]: Invalid action for "onTap": openUrl does not allow "javascript:" URLs',
+      'components[2]: Invalid actions: unknown trigger "onHover"'
+    ]);
+    // callApi defaults to POST
+    expect(output.components[3]).toMatchObject({
+      component: { actions: { onLongPress: { type: 'callApi', endpoint: '/runs/r1/stop', method: 'POST' } } }
+    });
+  });
+
+  test('should route actions and custom events to registered handlers', async () => {
+    const navigated: string[] = [];
+    const opened: string[] = [];
+    const dispatcher = new ActionDispatcher<{ openRun: { runId: string } }>()
+      .on('navigate', action => { navigated.push(action.screen); })
+      .onEvent('openRun', payload => { opened.push(payload.runId); })
+      .on('refresh', () => { throw new Error('offline'); });
+
+    const component = {
+      type: 'metric',
+      actions: {
+        onTap: { type: 'navigate', screen: 'run' },
+        onLongPress: { type: 'dispatch', event: 'openRun', payload: { runId: 'r7' } }
+      }
+    } as const;
+
+    expect(await dispatcher.trigger(component, 'onTap')).toEqual({ handled: true });
+    expect(await dispatcher.trigger(component, 'onLongPress')).toEqual({ handled: true });
+    expect(navigated).toEqual(['run']);
+    expect(opened).toEqual(['r7']);
+    expect(await dispatcher.dispatch({ type: 'refresh' })).toEqual({
+      handled: false,
+      error: 'Action "refresh" failed: offline'
+    });
+    expect(await dispatcher.dispatch({ type: 'openUrl', url: 'https://wandb.ai' })).toEqual({
+      handled: false,
+      error: 'No handler for action "openUrl"'
+    });
+  });
+});
+
+describe('Data Binding', () => {
+  const config = {
+    screen: 'run',
+    components: [
+      { type: 'metric', label: 'Loss',
+        source: { kind: 'experimentMetric', experimentId: 'exp-1', metric: 'loss' } },
+      { type: 'grid', columns: 1, items: [
+        { type: 'chart', chartType: 'line', source: {
+          kind: 'metricHistory', experimentId: 'exp-1', metric: 'loss',
+          pipeline: [{ transform: 'sampleMetrics', maxPoints: 5 }]
+        } }
+      ]},
+      { type: 'metric', label: 'BLEU',
+        source: { kind: 'experimentMetric', experimentId: 'exp-1', metric: 'bleu' } },
+      { type: 'header', text: 'Run', source: { kind: 'experimentMetric', experimentId: 'exp-1', metric: 'loss' } }
+    ]
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should render bound components as loading until data is resolved', () => {
+    const output = new ComponentRenderer().render(config, { keepInvalidChildren: true });
+
+    expect(output.components[0]).toMatchObject({ isValid: false, status: 'loading', path: 'components[0]' });
+    expect(output.errors).toEqual(['components[3]: Component type "header" does not support data sources']);
+  });
+
+  test('should keep loading and failed children of containers with default options', () => {
+    const childOf = (output: ReturnType<ComponentRenderer['render']>) => {
+      const grid = output.components[1];
+      return grid.isValid && grid.component.type === 'grid' ? grid.component.items : undefined;
+    };
+
+    const loading = new ComponentRenderer().render(config);
+    expect(childOf(loading)).toEqual([
+      expect.objectContaining({ isValid: false, status: 'loading', path: 'components[1].items[0]' })
+    ]);
+
+    const failed = new Map(collectDataSources(config).map(source => [
+      sourceKey(source), { status: 'error' as const, error: 'Service unavailable' }
+    ]));
+    expect(childOf(new ComponentRenderer().render(config, { data: failed }))).toEqual([
+      expect.objectContaining({ isValid: false, status: 'error', error: 'Data source failed: Service unavailable' })
+    ]);
+  });
+
+  test('should fill values from ApiClient and the source pipeline', async () => {
+    const client = new ApiClient('https://api.example.com');
+    const data = await resolveDataSources(config, client);
+    const output = new ComponentRenderer().render(config, { data });
+
+    expect(data.size).toBe(3);
+    expect(output.components[0]).toMatchObject({ isValid: true, component: { label: 'Loss', value: 0.5 } });
+
+    const grid = output.components[1];
+    const chart = grid.isValid && grid.component.type === 'grid' ? grid.component.items[0] : undefined;
+    // Ten logged steps sampled down to every second one, plus the last
+    expect(chart).toMatchObject({ isValid: true, component: { data: [1, 1 / 3, 1 / 5, 1 / 7, 1 / 9, 1 / 10] } });
+
+    expect(output.components[2]).toMatchObject({ isValid: false, status: 'error' });
+    expect(output.errors).toContain('components[2]: Data source failed: Experiment "exp-1" has no metric "bleu"');
+  });
+
+  test('should report invalid sources and pipeline steps', () => {
+    expect(validateDataSource({ kind: 'metricHistory', experimentId: 'exp-1', metric: 'loss',
+      pipeline: [{ transform: 'movingAverage', windowSize: 0 }] })).toEqual({
+      valid: false,
+      error: 'pipeline[0]: movingAverage requires a positive integer "windowSize"'
+    });
+    expect(collectDataSources({ components: [{ type: 'metric', source: { kind: 'sql' } }] })).toEqual([]);
+  });
+});
+
+describe('Screen Preview', () => {
+  const output = new ComponentRenderer().render({
+    screen: 'gpu <node-1>',
+    components: [
+      { type: 'header', text: 'GPU <b>Metrics</b>', style: 'large' },
+      { type: 'grid', columns: 2, items: [
+        { type: 'metric', label: 'Temperature', value: 75, unit: '°C' },
+        { type: 'chart', chartType: 'line', data: [1, 3, 2, 5], title: 'Loss' }
+      ]},
+      { type: 'chart', chartType: 'pie', data: [1, 3] },
+      { type: 'unknown' }
+    ]
+  });
+
+  test('should render HTML with escaped text, inline SVG charts and CSS grid', () => {
+    const html = renderHtml(output);
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>gpu &lt;node-1&gt;</title>');
+    expect(html).toContain('<h1>GPU &lt;b&gt;Metrics&lt;/b&gt;</h1>');
+    expect(html).toContain('style="grid-template-columns: repeat(2, minmax(0, 1fr))"');
+    expect(html).toContain('points="8,152 109.33,80 210.67,116 312,8"');
+    expect(html.match(/<path d="M 160 80/g)).toHaveLength(2);
+    expect(html).toContain('<div class="placeholder placeholder-error" data-path="components[3]">');
+    expect(renderHtml(output, { fragment: true, showErrors: false })).not.toContain('class="errors"');
+  });
+
+  test('should render a plain terminal view with columns, sparklines and errors', () => {
+    const text = renderTerminal(output, { color: false, width: 40 });
+
+    expect(text.split('\n')).toEqual(expect.arrayContaining([
+      'GPU <B>METRICS</B>',
+      'Temperature: 75 °C   Loss',
+      '                     ▁▅▃█',
+      '#1 ████████ 25.0%',
+      '#2 ███████████████████████ 75.0%',
+      '✗ unknown: Unknown component type: "unk…',
+      '  - components[3]: Unknown component type: "unknown"'
+    ]));
+    expect(text).not.toContain('\x1b[');
+    expect(renderTerminal(output)).toContain('\x1b[1m\x1b[36m75 °C\x1b[0m');
+  });
+
+  test('should render fields the renderer does not type-check', () => {
+    const loose = new ComponentRenderer().render({
+      screen: 'loose',
+      components: [
+        { type: 'metric', label: 'a', value: 1, id: 5, unit: 7 },
+        { type: 'chart', chartType: 'line', data: [1, 2], title: 42 },
+        { type: 'chart', chartType: 'bar', data: ['a', 2] }
+      ]
+    });
+
+    const html = renderHtml(loose, { fragment: true });
+    expect(html).toContain('<div class="metric" id="5">');
+    expect(html).toContain('<span class="metric-unit">7</span>');
+    expect(html).toContain('<figcaption>42</figcaption>');
+    expect(renderTerminal(loose, { color: false }).split('\n')).toEqual(expect.arrayContaining([
+      'a: 1 7',
+      '42',
+      '#1  0'
+    ]));
+  });
+});
+
+describe('Expressions', () => {
+  const context = { run: { name: 'resnet-50', status: 'failed', metrics: { loss: 0.42 } }, steps: 1200 };
+
+  function evaluate(source: string): unknown {
+    const parsed = parseExpression(source);
+    if (!parsed.valid) throw new Error(parsed.error);
+    return evaluateExpression(parsed.expression, context);
+  }
+
+  test('should evaluate comparisons, logic and paths against the context', () => {
+    expect(evaluate("run.status == 'failed'")).toBe(true);
+    expect(evaluate("run.status != 'failed' || steps >= 1000")).toBe(true);
+    expect(evaluate('!(run.metrics.loss < 0.5) && true')).toBe(false);
+    expect(evaluate('run.missing == null')).toBe(true);
+    expect(evaluate("steps > '100'")).toBe(false); // Mixed types never compare
+    expect(evaluate('run.constructor')).toBeUndefined();
+  });
+
+  test('should negate numbers with unary minus', () => {
+    expect(parseExpression('delta < -0.5')).toEqual({
+      valid: true,
+      expression: {
+        kind: 'binary', operator: '<',
+        left: { kind: 'path', segments: ['delta'] },
+        right: { kind: 'literal', value: -0.5 }
+      }
+    });
+    expect(evaluate('-run.metrics.loss < -0.4')).toBe(true);
+    expect(evaluate('--steps == 1200')).toBe(true);
+    expect(evaluate('-run.name')).toBeUndefined();
+    expect(parseExpression('steps -')).toEqual({ valid: false, error: 'Unexpected "-" at 6' });
+  });
+
+  test('should report syntax errors with their position', () => {
+    expect(parseExpression("run.status = 'failed'")).toEqual({ valid: false, error: 'Unexpected "=" at 11' });
+    expect(parseExpression('(steps > 1')).toEqual({ valid: false, error: 'Expected ")" at 10' });
+    expect(parseExpression("'open")).toEqual({ valid: false, error: 'Unterminated string at 0' });
+  });
+
+  test('should interpolate templates', () => {
+    expect(renderTemplate('Run {{ run.name }} — {{run.status}} ({{run.owner}})', context)).toEqual({
+      valid: true,
+      text: 'Run resnet-50 — failed ()'
+    });
+    expect(renderTemplate('Run {{run.name', context)).toEqual({ valid: false, error: 'Unclosed "{{" at 4' });
+  });
+});
+
+describe('Problem 2: Conditional Rendering', () => {
+  const config = {
+    screen: 'run',
+    components: [
+      { type: 'header', text: 'Run {{run.name}} — {{run.status}}', template: true },
+      { type: 'metric', label: 'Error', value: '{{run.error}}', visibleIf: "run.status == 'failed'",
+        template: ['value'] },
+      { type: 'metric', label: 'Progress', value: 100, unit: '%', visibleIf: "run.status == 'running'" },
+      { type: 'list', items: [
+        { type: 'header', text: 'Owner: {{run.owner}}', visibleIf: 'run.owner', template: true },
+        { type: 'header', text: 'Broken', visibleIf: 'run.status ==' }
+      ]},
+      { type: 'header', text: 'Hello {{name', template: true }
+    ]
+  };
+
+  test('should hide components, interpolate text and report expression errors', () => {
+    const output = new ComponentRenderer().render(config, {
+      context: { run: { name: 'resnet-50', status: 'failed', error: 'CUDA OOM' } }
+    });
+
+    expect(output.components.map(c => (c.isValid ? c.component.type : 'invalid'))).toEqual([
+      'header', 'metric', 'list', 'invalid'
+    ]);
+    expect(output.components[0]).toMatchObject({ component: { text: 'Run resnet-50 — failed' } });
+    expect(output.components[1]).toMatchObject({ component: { value: 'CUDA OOM' } });
+    // The owner header is hidden and the broken one dropped, so the list is empty
+    expect(output.components[2]).toMatchObject({ component: { items: [] } });
+    expect(output.errors).toEqual([
+      'components[3].items[1]: Invalid visibleIf: Unexpected end of expression at 13',
+      'components[4]: Invalid template in "text": Unclosed "{{" at 6'
+    ]);
+  });
+
+  test('should leave braces literal in fields not opted in to templating', () => {
+    const output = new ComponentRenderer().render({
+      screen: 'run',
+      components: [
+        { type: 'header', text: 'JSON like {{"a":1}}' },
+        { type: 'metric', label: 'Raw {{x}}', value: '{{run.load}}', template: ['value'] },
+        { type: 'header', text: 'Hi', template: 'yes' }
+      ]
+    }, { context: { run: { load: 0.75 } } });
+
+    expect(output.components[0]).toMatchObject({ component: { text: 'JSON like {{"a":1}}' } });
+    // A field that is a single expression keeps the value's type
+    expect(output.components[1]).toMatchObject({ component: { label: 'Raw {{x}}', value: 0.75 } });
+    expect(output.errors).toEqual(['components[2]: Invalid template: must be true or an array of field names']);
+  });
+});
+
+describe('Screen Diffing', () => {
+  const renderer = new ComponentRenderer();
+  const previous = renderer.render({
+    screen: 'dashboard',
+    components: [
+      { type: 'header', id: 'title', text: 'GPU Metrics' },
+      { type: 'metric', id: 'util', label: 'Utilization', value: 85, unit: '%' },
+      { type: 'metric', id: 'temp', label: 'Temperature', value: 75, unit: '°C' },
+      { type: 'grid', id: 'nodes', columns: 2, items: [
+        { type: 'metric', id: 'node-1', label: 'Node 1', value: 1 },
+        { type: 'metric', id: 'node-2', label: 'Node 2', value: 2 }
+      ]},
+      { type: 'chart', data: [1, 2], chartType: 'line' }
+    ]
+  });
+  const next = renderer.render({
+    screen: 'dashboard',
+    components: [
+      { type: 'header', id: 'title', text: 'GPU Metrics' },
+      { type: 'metric', id: 'temp', label: 'Temperature', value: 78, unit: '°C' },
+      { type: 'metric', id: 'util', label: 'Utilization', value: 85 },
+      { type: 'grid', id: 'nodes', columns: 2, items: [
+        { type: 'metric', id: 'node-2', label: 'Node 2', value: 2 },
+        { type: 'metric', id: 'node-3', label: 'Node 3', value: 3 }
+      ]},
+      { type: 'chart', data: [1, 2, 3], chartType: 'line' }
+    ]
+  });
+
+  test('should produce a minimal keyed patch list', () => {
+    const patch = diffScreens(previous, next);
+
+    expect(patch).toEqual([
+      { op: 'remove', parent: 'id:nodes', field: 'items', key: 'id:node-1' },
+      { op: 'move', parent: null, field: 'components', key: 'id:temp', before: 'id:util' },
+      { op: 'update', key: 'id:temp', set: { value: 78 }, unset: [], path: 'components[1]' },
+      { op: 'update', key: 'id:util', set: {}, unset: ['unit'], path: 'components[2]' },
+      {
+        op: 'insert', parent: 'id:nodes', field: 'items', key: 'id:node-3', before: null,
+        result: next.components[3].isValid && (next.components[3].component as any).items[1]
+      },
+      { op: 'update', key: 'id:node-2', set: {}, unset: [], path: 'components[3].items[0]' },
+      { op: 'update', key: 'path:components[4]', set: { data: [1, 2, 3] }, unset: [] }
+    ]);
+    expect(diffScreens(next, next)).toEqual([]);
+  });
+
+  test('should apply a patch to the previous output without modifying it', () => {
+    const snapshot = structuredClone(previous);
+    const updated = applyPatch(previous, diffScreens(previous, next));
+
+    expect(updated).toEqual(next);
+    expect(previous).toEqual(snapshot);
+  });
+
+  test('should replace components whose validity or type changed', () => {
+    // Invalid results have no id, so these are matched by path
+    const broken = renderer.render({ screen: 'dashboard', components: [{ type: 'metric', label: '' }] });
+    const fixed = renderer.render({ screen: 'dashboard', components: [{ type: 'metric', label: 'U', value: 1 }] });
+    const patch = diffScreens(broken, fixed);
+
+    expect(patch.map(entry => entry.op)).toEqual(['update', 'replace']); // errors cleared, then the swap
+    expect(applyPatch(broken, patch)).toEqual(fixed);
+  });
+});
+
+describe('Problem 2: Fragments', () => {
+  const fragments = {
+    gpuSummary: [
+      { type: 'header', text: 'GPU {{props.gpu}}', style: 'small', template: true },
+      { type: 'metric', label: 'Utilization', value: '{{props.util}}', unit: '%', template: true }
+    ],
+    loopA: { type: 'ref', ref: 'loopB' },
+    loopB: { type: 'list', items: [{ type: 'ref', ref: 'loopA' }] }
+  };
+
+  test('should expand refs in place with props available to templates', () => {
+    const output = new ComponentRenderer().render({
+      screen: 'cluster',
+      fragments,
+      components: [
+        { type: 'ref', ref: 'gpuSummary', props: { gpu: 0, util: 85 } },
+        { type: 'grid', columns: 2, items: [
+          { type: 'ref', ref: 'gpuSummary', props: { gpu: '{{node}}-1' }, template: true }
+        ]}
+      ]
+    }, { context: { node: 'n7' } });
+
+    expect(output.errors).toEqual([]);
+    expect(output.components).toHaveLength(3);
+    expect(output.components[0]).toMatchObject({
+      component: { type: 'header', text: 'GPU 0' },
+      path: 'components[0].ref(gpuSummary)[0]'
+    });
+    expect(output.components[1]).toMatchObject({ component: { value: 85 } });
+    const grid = output.components[2];
+    expect(grid.isValid && grid.component.type === 'grid' && grid.component.items[0]).toMatchObject({
+      component: { text: 'GPU n7-1' },
+      path: 'components[1].items[0].ref(gpuSummary)[0]'
+    });
+  });
+
+  test('should report missing fragments and cycles', () => {
+    const output = new ComponentRenderer().render({
+      screen: 'cluster',
+      fragments,
+      components: [{ type: 'ref', ref: 'cpuSummary' }, { type: 'ref', ref: 'loopA' }]
+    });
+
+    expect(output.errors).toEqual([
+      'components[0]: Unknown fragment "cpuSummary"',
+      'components[1].ref(loopA)[0].ref(loopB)[0].items[0]: Fragment cycle: loopA → loopB → loopA'
+    ]);
+    expect(output.components[0]).toMatchObject({ type: 'ref', isValid: false });
+    expect(new ComponentRenderer().render({ screen: 's', components: [], fragments: [] }).errors).toEqual([
+      'Invalid configuration: "fragments" must be an object'
+    ]);
+  });
+});
+
+describe('Screen Linting', () => {
+  const render = (components: unknown[]) => new ComponentRenderer().render({ screen: 'lint', components });
+
+  test('should warn about charts, metrics and grids', () => {
+    const output = render([
+      { type: 'chart', chartType: 'line', data: [1, 2], title: 'Loss', alt: 'Loss falling over 2 steps' },
+      { type: 'chart', chartType: 'pie', data: [1, 2] },
+      { type: 'metric', label: 'GPU', value: 85 },
+      { type: 'metric', label: 'Status', value: 'ok' },
+      { type: 'grid', columns: 3, items: [{ type: 'metric', label: 'Memory', value: 12, unit: 'GB' }] }
+    ]);
+
+    expect(lintScreen(output)).toEqual([
+      { rule: 'chart-title', path: 'components[1]', message: 'Pie chart has no title' },
+      { rule: 'chart-alt', path: 'components[1]', message: 'Pie chart has no alt text' },
+      { rule: 'metric-unit', path: 'components[2]', message: 'Metric "GPU" has no unit' },
+      { rule: 'grid-columns', path: 'components[4]', message: 'Grid has 3 columns but only 1 items' }
+    ]);
+    expect(lintScreen(output, { disabled: ['chart-alt', 'metric-unit'] }).map(w => w.rule))
+      .toEqual(['chart-title', 'grid-columns']);
+  });
+
+  test('should warn about nesting, duplicate ids and header hierarchy', () => {
+    const deep = { type: 'list', items: [{ type: 'list', items: [{ type: 'list', items: [
+      { type: 'list', items: [{ type: 'header', text: 'Deep', id: 'title' }] }
+    ] }] }] };
+    const output = render([
+      { type: 'header', text: 'Cluster', style: 'large', id: 'title' },
+      { type: 'header', text: 'Details', style: 'small' },
+      { type: 'header', text: 'Again', style: 'large' },
+      deep
+    ]);
+
+    expect(lintScreen(output)).toEqual([
+      { rule: 'header-hierarchy', path: 'components[1]',
+        message: 'Header "Details" skips a level (small after large)' },
+      { rule: 'header-hierarchy', path: 'components[2]', message: 'More than one large header (first at components[0])' },
+      { rule: 'max-nesting', path: 'components[3].items[0].items[0].items[0]',
+        message: 'Component is nested 4 levels deep (maximum 3)' },
+      { rule: 'duplicate-id', path: 'components[3].items[0].items[0].items[0].items[0]',
+        message: 'Duplicate id "title" (first used at components[0])' }
+    ]);
+    expect(lintScreen(output, { maxNesting: 5 }).map(w => w.rule)).not.toContain('max-nesting');
+  });
+});
+
+describe('Problem 2: Client Capabilities', () => {
+  const client: ClientCapabilities = {
+    platform: 'android',
+    appVersion: '3.2.0',
+    components: { header: true, metric: true, chart: ['line', 'bar'], list: ['vertical'] }
+  };
+
+  test('should apply declared fallbacks and record downgrades', () => {
+    const output = new ComponentRenderer().render({
+      screen: 'dashboard',
+      fallbacks: { 'chart.pie': { variant: 'bar' }, grid: { replace: { type: 'list', items: [] } } },
+      components: [
+        { type: 'header', text: 'Cluster on {{client.platform}}', style: 'large', template: true },
+        { type: 'chart', chartType: 'pie', data: [60, 40] },
+        { type: 'list', orientation: 'horizontal', items: [], fallback: 'hidden' },
+        { type: 'grid', columns: 2, items: [{ type: 'chart', chartType: 'pie', data: [1] }] }
+      ]
+    }, { client });
+
+    expect(output.errors).toEqual([]);
+    expect(output.components.map(result => result.isValid && result.component)).toEqual([
+      expect.objectContaining({ text: 'Cluster on android' }),
+      expect.objectContaining({ type: 'chart', chartType: 'bar' }),
+      expect.objectContaining({ type: 'list', items: [] })
+    ]);
+    expect(output.components[2].path).toBe('components[3]');
+    expect(output.downgrades).toEqual([
+      { path: 'components[1]', from: 'chart.pie', to: 'chart.bar' },
+      { path: 'components[2]', from: 'list.horizontal', to: null },
+      { path: 'components[3]', from: 'grid', to: 'list.vertical' }
+    ]);
+  });
+
+  test('should report unsupported components without a usable fallback', () => {
+    const output = new ComponentRenderer().render({
+      screen: 'dashboard',
+      fallbacks: { 'chart.pie': { variant: 'bar' }, 'chart.bar': { variant: 'pie' }, grid: 'shrink' },
+      components: [
+        { type: 'list', orientation: 'horizontal', items: [] },
+        { type: 'chart', chartType: 'pie', data: [1], fallback: { variant: 'bar' } },
+        { type: 'grid', columns: 1, items: [] }
+      ]
+    }, { client: { ...client, components: { chart: ['line'], list: ['vertical'] } } });
+
+    expect(output.errors).toEqual([
+      'components[0]: Client does not support "list.horizontal"',
+      'components[1]: Fallback cycle: chart.pie → chart.bar → chart.pie',
+      'components[2]: Invalid fallback for "grid"'
+    ]);
+    expect(output.downgrades).toEqual([]);
+  });
+
+  test('should render everything without a client', () => {
+    const output = new ComponentRenderer().render(testConfig);
+    expect(output).not.toHaveProperty('downgrades');
+  });
+});
+
+describe('Problem 3: Transports', () => {
+  const experiment = {
+    name: 'Training Run', status: 'running', metrics: { loss: 0.5 },
+    createdAt: '2025-10-27T10:00:00Z', updatedAt: '2025-10-27T11:00:00Z'
+  };
+
+  test('should route requests through an in-memory table', async () => {
+    const transport = new MemoryTransport({
+      'GET /experiments/:id': ({ params }) => ({ body: { id: params.id, ...experiment } })
+    });
+    const client = new ApiClient({ baseUrl: 'https://api.test', transport, maxRetries: 0 });
+
+    const response = await client.getExperiment('exp-7');
+    expect(response.success && response.data).toMatchObject({ id: 'exp-7', createdAt: new Date(experiment.createdAt) });
+    expect(transport.requests).toEqual([
+      { method: 'GET', url: 'https://api.test/experiments/exp-7', headers: { accept: 'application/json' },
+        signal: expect.any(AbortSignal) }
+    ]);
+
+    expect(await client.get('/runs')).toMatchObject({
+      success: false,
+      error: { code: 'HTTP_ERROR', message: 'HTTP 404: Not Found', statusCode: 404 }
+    });
+  });
+
+  test('should report handler failures as network errors', async () => {
+    const transport = new MemoryTransport().on('GET /experiments', () => {
+      throw new Error('Connection reset');
+    });
+    const client = new ApiClient({ baseUrl: 'https://api.test', transport, maxRetries: 0 });
+
+    expect(await client.getExperiments()).toMatchObject({
+      success: false,
+      error: { code: 'NETWORK_ERROR', message: 'Connection reset' }
+    });
+  });
+
+  test('should talk to a real server with the fetch and Node http transports', async () => {
+    const server = http.createServer((request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/json', 'X-Path': request.url ?? '' });
+      response.end(JSON.stringify({ id: 'exp-1', ...experiment }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    try {
+      for (const transport of [new FetchTransport(), new NodeHttpTransport()]) {
+        const response = await new ApiClient({ baseUrl, transport }).getExperiment('exp-1');
+        expect(response.success && response.data.name).toBe('Training Run');
+
+        const raw = await transport.send({ method: 'GET', url: `${baseUrl}/runs?page=2`, headers: {} });
+        expect(raw).toMatchObject({ status: 200, statusText: 'OK', headers: { 'x-path': '/runs?page=2' } });
+      }
+    } finally {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
+
+describe('Problem 3: Request Methods', () => {
+  const transport = new MemoryTransport()
+    .on('POST /experiments', ({ text, query, headers }) => ({
+      status: 201,
+      body: { ...JSON.parse(text), id: 'exp-3', dryRun: query.dryRun, trace: headers['x-trace-id'] }
+    }))
+    .on('PUT /experiments/:id/tags', ({ text }) => ({ body: { tags: new URLSearchParams(text).getAll('tag') } }))
+    .on('PATCH /experiments/:id', ({ params, text }) => ({ body: { id: params.id, ...JSON.parse(text) } }))
+    .on('DELETE /experiments/:id/artifacts/:artifact', { status: 204 })
+    .on('POST /artifacts', ({ text }) => ({ body: { size: text.length } }));
+  const client = new ApiClient({ baseUrl: 'https://api.test', transport, maxRetries: 0 });
+  const meta = { attempts: 1, totalWait: 0 };
+
+  test('should send typed JSON bodies with headers and query objects', async () => {
+    const created = await client.post<{ id: string; name: string; dryRun: string; trace: string }, { name: string }>(
+      '/experiments',
+      { name: 'Run 3' },
+      { query: { dryRun: true, tag: null }, headers: { 'X-Trace-Id': 'abc' } }
+    );
+    expect(created).toEqual({
+      success: true,
+      data: { id: 'exp-3', name: 'Run 3', dryRun: 'true', trace: 'abc' },
+      meta
+    });
+    expect(transport.requests[0]).toMatchObject({
+      url: 'https://api.test/experiments?dryRun=true',
+      headers: { accept: 'application/json', 'content-type': 'application/json', 'x-trace-id': 'abc' }
+    });
+
+    const patched = await client.patch('/experiments/exp-1', { status: 'completed' });
+    expect(patched).toEqual({ success: true, data: { id: 'exp-1', status: 'completed' }, meta });
+    const deleted = await client.delete('/experiments/exp-1/artifacts/model.bin');
+    expect(deleted).toEqual({ success: true, data: undefined, meta });
+  });
+
+  test('should encode form and multipart bodies', async () => {
+    const tagged = await client.put('/experiments/exp-1/tags', { tag: ['gpu', 'a100'] }, { encoding: 'form' });
+    expect(tagged).toEqual({ success: true, data: { tags: ['gpu', 'a100'] }, meta });
+
+    await client.post('/artifacts', {
+      runId: 'exp-1',
+      file: { filename: 'notes.txt', contentType: 'text/plain', data: 'loss went down' }
+    }, { encoding: 'multipart' });
+    const upload = transport.requests[transport.requests.length - 1];
+    const boundary = upload.headers['content-type'].split('boundary=')[1];
+    expect(new TextDecoder().decode(upload.body as Uint8Array)).toBe([
+      `--${boundary}`, 'Content-Disposition: form-data; name="runId"', '', 'exp-1',
+      `--${boundary}`, 'Content-Disposition: form-data; name="file"; filename="notes.txt"', 'Content-Type: text/plain',
+      '', 'loss went down',
+      `--${boundary}--`, ''
+    ].join('\r\n'));
+  });
+
+  test('should reject bodies that cannot be encoded', async () => {
+    expect(await client.post('/experiments', { config: { lr: 0.1 } }, { encoding: 'form' })).toEqual({
+      success: false,
+      error: { code: 'INVALID_REQUEST', message: 'Form field "config" must be a string, number or boolean' },
+      meta: { attempts: 0, totalWait: 0 }
+    });
+
+    const circular: Record<string, unknown> = { name: 'run' };
+    circular.self = circular;
+    for (const body of [circular, { steps: BigInt(10) }, () => 'run', Symbol('run')]) {
+      expect(await client.post('/experiments', body)).toMatchObject({
+        success: false,
+        error: { code: 'INVALID_REQUEST', message: expect.stringMatching(/^Body cannot be encoded as JSON: /) },
+        meta: { attempts: 0 }
+      });
+    }
+    expect(await client.post('/experiments', () => 'run')).toMatchObject({
+      error: { message: 'Body cannot be encoded as JSON: a function has no JSON form' }
+    });
+  });
+});
+
+describe('Problem 3: Response Validation', () => {
+  const transport = new MemoryTransport({
+    'GET /experiments/:id': ({ params }) => ({
+      body: { id: params.id, name: 'Run', status: 'crashed', metrics: { loss: '0.5' },
+        createdAt: '2025-10-27T10:00:00Z', updatedAt: '2025-10-27T11:00:00Z' }
+    }),
+    'GET /runs/:id': ({ params }) => ({ body: { id: params.id, gpus: 8 } })
+  });
+  const client = new ApiClient({ baseUrl: 'https://api.test', transport, maxRetries: 0 });
+
+  test('should reject payloads that do not match the endpoint schema', async () => {
+    const response = await client.getExperiment('exp-1');
+
+    expect(response.success).toBe(false);
+    if (response.success) return;
+    expect(response.error.code).toBe('VALIDATION_ERROR');
+    expect(response.error.issues).toEqual([
+      { path: 'status', message: expect.stringContaining('running') },
+      { path: 'metrics.loss', message: expect.stringContaining('number') }
+    ]);
+    expect(response.error.message).toMatch(/^Invalid response: status: .*; metrics\.loss: /);
+  });
+
+  test('should validate with a caller schema and infer the response type', async () => {
+    const RunSchema = z.object({ id: z.string(), gpus: z.number() });
+    const response = await client.get('/runs/r-1', { schema: RunSchema });
+    expect(response.success && response.data.gpus).toBe(8);
+
+    const strict = await client.get('/runs/r-1', { schema: RunSchema.extend({ node: z.string() }) });
+    expect(strict.success || strict.error.issues).toEqual([
+      { path: 'node', message: expect.any(String) }
+    ]);
+  });
+
+  test('should accept timestamps with a UTC offset', async () => {
+    const transport = new MemoryTransport({
+      'GET /experiments/:id': ({ params }) => ({
+        body: { id: params.id, name: 'Run', status: 'running', metrics: {},
+          createdAt: '2025-10-27T10:00:00+00:00', updatedAt: '2025-10-27T16:30:00+05:30' }
+      })
+    });
+    const response = await new ApiClient({ baseUrl: 'https://api.test', transport }).getExperiment('exp-1');
+
+    expect(response.success && response.data).toMatchObject({
+      createdAt: new Date('2025-10-27T10:00:00Z'),
+      updatedAt: new Date('2025-10-27T11:00:00Z')
+    });
+  });
+});
+
+describe('Problem 3: Timeouts & Cancellation', () => {
+  const never = () => new Promise<never>(() => undefined);
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should abort attempts that exceed the client or request timeout', async () => {
+    const transport = new MemoryTransport({ 'GET /experiments': never, 'GET /runs': { body: [] } });
+    const client = new ApiClient({ baseUrl: 'https://api.test', transport, timeout: 20, maxRetries: 1, retryDelay: 0 });
+
+    expect(await client.getExperiments()).toEqual({
+      success: false,
+      error: { code: 'TIMEOUT', message: 'Request timed out after 20ms' },
+      meta: { attempts: 2, totalWait: 0 }
+    });
+    expect(transport.requests).toHaveLength(2);
+    expect(transport.requests.every(request => request.signal?.aborted)).toBe(true);
+
+    expect(await client.get('/experiments', { timeout: 5 })).toMatchObject({ error: { code: 'TIMEOUT' } });
+    expect(await client.get('/runs', { timeout: 0 })).toEqual({
+      success: true,
+      data: [],
+      meta: { attempts: 1, totalWait: 0 }
+    });
+  });
+
+  test('should cancel in-flight requests and retries through an AbortSignal', async () => {
+    const transport = new MemoryTransport({ 'GET /experiments/:id': never });
+    const client = new ApiClient({ baseUrl: 'https://api.test', transport, timeout: 0 });
+    const cancelled = (attempts: number) => ({
+      success: false,
+      error: { code: 'CANCELLED', message: 'Request was cancelled' },
+      meta: { attempts, totalWait: 0 }
+    });
+
+    const controller = new AbortController();
+    const pending = client.getExperiment('exp-1', { signal: controller.signal });
+    controller.abort();
+    expect(await pending).toEqual(cancelled(1));
+    expect(transport.requests[0].signal?.aborted).toBe(true);
+
+    // Already aborted: nothing is sent
+    expect(await client.getMetricHistory('exp-1', 'loss', { signal: controller.signal })).toEqual(cancelled(0));
+    expect(transport.requests).toHaveLength(1);
+
+    // Aborting during the retry delay stops retrying
+    const flaky = new ApiClient({
+      baseUrl: 'https://api.test',
+      transport: new MemoryTransport({ 'GET /runs': () => { throw new Error('Connection reset'); } }),
+      retryDelay: 60000
+    });
+    const retrying = new AbortController();
+    const retried = flaky.get('/runs', { signal: retrying.signal });
+    setTimeout(() => retrying.abort(), 10);
+    expect(await retried).toEqual(cancelled(1));
+  });
+});
+
+describe('Problem 3: Retry Policy', () => {
+  const flaky = (failures: MemoryResponse[]) => {
+    const transport = new MemoryTransport();
+    const respond = () => failures.shift() ?? { body: { ok: true } };
+    for (const method of ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']) transport.on(`${method} /runs`, respond);
+    return transport;
+  };
+  const unavailable = { status: 503, headers: { 'Retry-After': '0' } };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should back off exponentially, with jitter, on retryable statuses', async () => {
+    const transport = flaky([{ status: 502 }, { status: 429 }]);
+    const retries: unknown[] = [];
+    const client = new ApiClient({
+      baseUrl: 'https://api.test',
+      transport,
+      retry: { baseDelay: 10, backoffFactor: 3, jitter: 'none', onRetry: ({ attempt, delay, error }) => {
+        retries.push({ attempt, delay, code: error.code, status: error.statusCode });
+      } }
+    });
+
+    expect(await client.get('/runs')).toEqual({
+      success: true,
+      data: { ok: true },
+      meta: { attempts: 3, totalWait: 40 }
+    });
+    expect(retries).toEqual([
+      { attempt: 1, delay: 10, code: 'HTTP_ERROR', status: 502 },
+      { attempt: 2, delay: 30, code: 'HTTP_ERROR', status: 429 }
+    ]);
+
+    // Equal jitter keeps half of the 8ms backoff and randomizes the rest
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    const jittered = new ApiClient({ baseUrl: 'https://api.test', transport: flaky([{ status: 500 }]) });
+    expect((await jittered.get('/runs', { retry: { baseDelay: 8, jitter: 'equal' } })).meta)
+      .toEqual({ attempts: 2, totalWait: 6 });
+  });
+
+  test('should not retry responses whose body is not JSON', async () => {
+    const transport = new MemoryTransport({ 'GET /runs': { body: '<html>Bad gateway</html>' } });
+    const client = new ApiClient({ baseUrl: 'https://api.test', transport, retry: { baseDelay: 0 } });
+
+    expect(await client.get('/runs')).toMatchObject({
+      success: false,
+      error: { code: 'INVALID_RESPONSE', statusCode: 200, message: expect.stringContaining('not valid JSON') },
+      meta: { attempts: 1 }
+    });
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  test('should only retry statuses in the policy', async () => {
+    const client = new ApiClient({
+      baseUrl: 'https://api.test',
+      transport: flaky([{ status: 404 }, { status: 503 }]),
+      retry: { baseDelay: 0, retryOnStatus: [502] }
+    });
+
+    expect(await client.get('/runs')).toMatchObject({ error: { statusCode: 404 }, meta: { attempts: 1 } });
+    expect(await client.get('/runs')).toMatchObject({ error: { statusCode: 503 }, meta: { attempts: 1 } });
+  });
+
+  test('should honour Retry-After and give up when it exceeds maxDelay', async () => {
+    const client = new ApiClient({
+      baseUrl: 'https://api.test',
+      transport: flaky([unavailable, { status: 503, headers: { 'Retry-After': '120' } }]),
+      retry: { baseDelay: 60000, maxDelay: 1000 }
+    });
+
+    // Retry-After: 0 is retried at once despite the long baseDelay; 120 seconds is too long to wait
+    expect(await client.get('/runs')).toMatchObject({
+      error: { statusCode: 503 },
+      meta: { attempts: 2, totalWait: 0 }
+    });
+  });
+
+  test('should not retry non-idempotent requests unless they are safe to repeat', async () => {
+    const failures = [unavailable];
+    const client = new ApiClient({ baseUrl: 'https://api.test', transport: flaky(failures) });
+
+    expect(await client.post('/runs', { name: 'Run 4' })).toMatchObject({ success: false, meta: { attempts: 1 } });
+    failures.push(unavailable);
+    expect(await client.patch('/runs', { name: 'Run 4' }, { headers: { 'Idempotency-Key': 'k-1' } }))
+      .toMatchObject({ success: true, meta: { attempts: 2 } });
+    failures.push(unavailable);
+    expect(await client.post('/runs', {}, { retry: { retryNonIdempotent: true } }))
+      .toMatchObject({ success: true, meta: { attempts: 2 } });
+    failures.push(unavailable);
+    expect(await client.put('/runs', {})).toMatchObject({ success: true, meta: { attempts: 2 } });
+  });
+});
+
+// Add more tests for other problems